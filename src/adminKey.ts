@@ -0,0 +1,87 @@
+/**
+ * Admin Keypair
+ *
+ * Every admin circuit asserts `std_ownPublicKey() == state.adminKey`, and the
+ * admin's public key is what `Crypto.derivePublicKey` makes of its secret:
+ *
+ *   scalar = degradeToTransient(secret)
+ *   P      = ecMulGenerator(scalar)
+ *   pk     = persistentHash<[Field, Field]>([P.x, P.y])
+ *
+ * The node proves as the admin by holding that key as the coin public key
+ * of its Zswap local state. Key file (mode 0600):
+ *
+ *   { "secretKey": "<64 hex>", "publicKey": "<64 hex>" }
+ *
+ * Usage: npm run admin-key -- <key-file>     writes a new key, never over an existing one
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import {
+    CompactTypeField,
+    CompactTypeVector,
+    degradeToTransient,
+    ecMulGenerator,
+    persistentHash
+} from '@midnight-ntwrk/compact-runtime';
+import { bytesEqual, bytesToHex, hexToBytes } from './bytes.ts';
+import { randomBytes } from './entropy.ts';
+
+// [Field, Field] lays out exactly like Vector<2, Field>
+const PointDescriptor = new CompactTypeVector(2, CompactTypeField);
+
+export interface AdminKeyPair {
+    secretKey: Uint8Array;
+    publicKey: Uint8Array;  // ZswapCoinPublicKey.bytes
+}
+
+/** `Crypto.derivePublicKey(secret).bytes` */
+export function deriveAdminPublicKey(secretKey: Uint8Array): Uint8Array {
+    const point = ecMulGenerator(degradeToTransient(secretKey));
+    return persistentHash(PointDescriptor, [point.x, point.y]);
+}
+
+export function generateAdminKeyPair(): AdminKeyPair {
+    const secretKey = randomBytes(32);
+    return { secretKey, publicKey: deriveAdminPublicKey(secretKey) };
+}
+
+export function loadAdminKeyFile(path: string): AdminKeyPair {
+    const { secretKey, publicKey } = JSON.parse(readFileSync(path, 'utf8'));
+    if (typeof secretKey !== 'string' || !/^[0-9a-f]{64}$/i.test(secretKey)) throw new Error(`${path}: secretKey must be 32 bytes of hex`);
+    const keys: AdminKeyPair = { secretKey: hexToBytes(secretKey), publicKey: deriveAdminPublicKey(hexToBytes(secretKey)) };
+    if (publicKey !== undefined && !bytesEqual(hexToBytes(String(publicKey)), keys.publicKey)) {
+        throw new Error(`${path}: publicKey is not the one derivePublicKey gives for secretKey`);
+    }
+    return keys;
+}
+
+export function writeAdminKeyFile(path: string, keys: AdminKeyPair) {
+    writeFileSync(path, JSON.stringify({ secretKey: bytesToHex(keys.secretKey), publicKey: bytesToHex(keys.publicKey) }, null, 2), { mode: 0o600 });
+}
+
+// ============================================
+// COMMAND
+// ============================================
+
+function main(argv: string[]) {
+    const path = argv[0];
+    if (!path) {
+        console.log("Usage: npm run admin-key -- <key-file>");
+        process.exit(1);
+    }
+    if (existsSync(path)) {
+        console.log(`${path} already exists; not overwriting an admin key`);
+        process.exit(1);
+    }
+    const keys = generateAdminKeyPair();
+    writeAdminKeyFile(path, keys);
+    console.log(`🔑 Admin key written to ${path}`);
+    console.log(`   Public key: ${bytesToHex(keys.publicKey)}`);
+}
+
+if (process.argv[1] && resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+    main(process.argv.slice(2));
+}
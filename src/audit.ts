@@ -0,0 +1,177 @@
+/**
+ * Offline Transcript Auditor
+ *
+ * Replays the contract's rolling `transcriptHash` from an exported game log:
+ * - genesis:  pad(32, "genesis")
+ * - move:     hash2(prev, encryptedAction | encryptedVote)
+ * - outcome:  hash2(prev, persistentHash<[Uint<32>, Boolean]>([idx, hasDeath]))
+ *
+ * The log is checked against a transcript hash read off the ledger
+ * (getGameState(gameId).transcriptHash, or `transcriptHash` in GET /state),
+ * never against the one the exporting node wrote into the log.
+ *
+ * Usage: npm run audit -- <game-log.json> <ledger-transcript-hash>
+ */
+
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import {
+    Bytes32Descriptor,
+    CompactTypeBoolean,
+    CompactTypeUnsignedInteger,
+    persistentHash,
+    type CompactType
+} from '@midnight-ntwrk/compact-runtime';
+import { bytesToHex, hexToBytes, pad } from './bytes.ts';
+
+// ============================================
+// LOG FORMAT
+// ============================================
+
+/** One input to the hash chain: an encrypted move, or a phase resolution */
+export type TranscriptStep =
+    | { kind: 'move'; round: number; phase: number; payload: string }
+    | { kind: 'outcome'; round: number; phase: number; idx: number; hasDeath: boolean };
+
+/** A step paired with the hash the ledger held right after it */
+export type TranscriptEntry = TranscriptStep & { transcriptAfter: string };
+
+export interface GameLog {
+    version: 1;
+    gameId: string;
+    entries: TranscriptEntry[];
+    // What the exporting node says the ledger held; an auditor reads the ledger itself
+    ledgerTranscriptHash: string;
+}
+
+export interface Divergence {
+    index: number;                 // entries.length when entries are missing at the end
+    entry: TranscriptEntry | null;
+    claimed: string;
+    computed: string;
+}
+
+export interface AuditResult {
+    ok: boolean;
+    computed: string;
+    expected: string;
+    firstDivergence: Divergence | null;
+}
+
+// ============================================
+// HASH CHAIN
+// ============================================
+
+const Uint32Descriptor = new CompactTypeUnsignedInteger(4294967295n, 4);
+
+function pairDescriptor<A, B>(a: CompactType<A>, b: CompactType<B>): CompactType<[A, B]> {
+    return {
+        alignment: () => a.alignment().concat(b.alignment()),
+        fromValue: (value) => [a.fromValue(value), b.fromValue(value)],
+        toValue: ([x, y]) => a.toValue(x).concat(b.toValue(y))
+    };
+}
+
+const Hash2Descriptor = pairDescriptor(Bytes32Descriptor, Bytes32Descriptor);
+const OutcomeDescriptor = pairDescriptor(Uint32Descriptor, CompactTypeBoolean);
+
+export const GENESIS = pad(32, "genesis");
+
+/** `Crypto.hash2` */
+export function hash2(a: Uint8Array, b: Uint8Array): Uint8Array {
+    return persistentHash(Hash2Descriptor, [a, b]);
+}
+
+export function outcomeHash(idx: number, hasDeath: boolean): Uint8Array {
+    return persistentHash(OutcomeDescriptor, [BigInt(idx), hasDeath]);
+}
+
+/** Key of a phase's `movesSubmittedCount`, as nightAction / voteDay compute it */
+export function moveCountKey(gameId: Uint8Array, night: boolean, round: bigint): Uint8Array {
+    return hash2(hash2(gameId, pad(32, night ? "night-round" : "day-round")), persistentHash(Uint32Descriptor, round));
+}
+
+export function applyEntry(prev: Uint8Array, entry: TranscriptStep): Uint8Array {
+    return entry.kind === 'move'
+        ? hash2(prev, hexToBytes(entry.payload))
+        : hash2(prev, outcomeHash(entry.idx, entry.hasDeath));
+}
+
+/** Hash after each entry, starting from genesis */
+export function replayTranscript(entries: TranscriptEntry[]): Uint8Array[] {
+    const hashes: Uint8Array[] = [];
+    let acc = GENESIS;
+    for (const entry of entries) {
+        acc = applyEntry(acc, entry);
+        hashes.push(acc);
+    }
+    return hashes;
+}
+
+export function auditTranscript(entries: TranscriptEntry[], ledgerHash: Uint8Array): AuditResult {
+    const hashes = replayTranscript(entries);
+    const computed = bytesToHex(hashes.at(-1) ?? GENESIS);
+    const expected = bytesToHex(ledgerHash);
+
+    let firstDivergence: Divergence | null = null;
+    const i = entries.findIndex((e, idx) => e.transcriptAfter !== bytesToHex(hashes[idx]));
+    if (i !== -1) {
+        firstDivergence = { index: i, entry: entries[i], claimed: entries[i].transcriptAfter, computed: bytesToHex(hashes[i]) };
+    } else if (computed !== expected) {
+        // Every recorded step checks out, so the ledger saw moves the log is missing
+        firstDivergence = { index: entries.length, entry: null, claimed: expected, computed };
+    }
+
+    return { ok: firstDivergence === null, computed, expected, firstDivergence };
+}
+
+export function auditGameLog(log: GameLog, ledgerHash: Uint8Array): AuditResult {
+    return auditTranscript(log.entries, ledgerHash);
+}
+
+export function describeEntry(entry: TranscriptEntry | null): string {
+    if (!entry) return "(entries missing after the end of the log)";
+    const phase = entry.phase === 1 ? "night" : "day";
+    return entry.kind === 'move'
+        ? `round ${entry.round} ${phase} move ${entry.payload.slice(0, 12)}…`
+        : `round ${entry.round} ${phase} outcome (idx ${entry.idx}, ${entry.hasDeath ? "death" : "no death"})`;
+}
+
+// ============================================
+// COMMAND
+// ============================================
+
+function main(argv: string[]) {
+    const [file, ledgerHash] = argv;
+    if (!file || !/^[0-9a-f]{64}$/i.test(ledgerHash ?? "")) {
+        console.error("Usage: npm run audit -- <game-log.json> <ledger-transcript-hash>");
+        process.exit(2);
+    }
+
+    const log: GameLog = JSON.parse(readFileSync(file, 'utf8'));
+    const result = auditGameLog(log, hexToBytes(ledgerHash));
+
+    console.log(`Game:     ${log.gameId}`);
+    console.log(`Entries:  ${log.entries.length}`);
+    console.log(`Ledger:   ${result.expected}`);
+    console.log(`Replayed: ${result.computed}`);
+    if (log.ledgerTranscriptHash.toLowerCase() !== result.expected) {
+        console.log(`⚠️  The log claims the ledger held ${log.ledgerTranscriptHash}`);
+    }
+
+    if (result.ok) {
+        console.log("✅ Transcript matches the ledger");
+        process.exit(0);
+    }
+
+    const d = result.firstDivergence!;
+    console.log(`❌ Transcript diverges at entry #${d.index}: ${describeEntry(d.entry)}`);
+    console.log(`   claimed  ${d.claimed}`);
+    console.log(`   computed ${d.computed}`);
+    process.exit(1);
+}
+
+if (process.argv[1] && resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+    main(process.argv.slice(2));
+}
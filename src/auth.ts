@@ -0,0 +1,59 @@
+/**
+ * API Request Authentication
+ *
+ * A seated player signs every request with an HMAC key derived from the
+ * same X25519 agreement their moves are sealed with, so only the holder of
+ * a seat's secret can speak for that seat. The signature covers method,
+ * path, timestamp and body; the server drops stale timestamps and replays.
+ */
+
+import { Buffer } from 'node:buffer';
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+import { sharedActionKey } from './encryption.ts';
+
+const AUTH_LABEL = new TextEncoder().encode("werewolf:api-auth");
+
+export const MAX_CLOCK_SKEW_MS = 30_000;
+
+export interface SignedHeaders {
+    'x-seat': string;
+    'x-timestamp': string;
+    'x-signature': string;
+}
+
+/** Same value from either side: (player key, node public) or (node key, player public) */
+export function requestAuthKey(myPrivateKey: Uint8Array, theirPublicKey: Uint8Array): Uint8Array {
+    return new Uint8Array(createHash('sha256').update(AUTH_LABEL).update(sharedActionKey(myPrivateKey, theirPublicKey)).digest());
+}
+
+export function signRequest(key: Uint8Array, method: string, path: string, timestamp: number, body: string): string {
+    return createHmac('sha256', key).update(`${method}\n${path}\n${timestamp}\n${body}`).digest('hex');
+}
+
+export function signedHeaders(key: Uint8Array, seat: number, method: string, path: string, body: string, now = Date.now()): SignedHeaders {
+    return {
+        'x-seat': String(seat),
+        'x-timestamp': String(now),
+        'x-signature': signRequest(key, method, path, now, body)
+    };
+}
+
+export function verifyRequest(key: Uint8Array, method: string, path: string, timestamp: number, body: string, signature: string): boolean {
+    const expected = Buffer.from(signRequest(key, method, path, timestamp, body), 'hex');
+    const given = Buffer.from(signature, 'hex');
+    return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/** Remembers signatures inside the skew window so a captured request cannot be resent */
+export class ReplayGuard {
+    private seen = new Map<string, number>();
+
+    accept(signature: string, timestamp: number, now = Date.now()): boolean {
+        for (const [sig, ts] of this.seen) {
+            if (now - ts > MAX_CLOCK_SKEW_MS) this.seen.delete(sig);
+        }
+        if (Math.abs(now - timestamp) > MAX_CLOCK_SKEW_MS || this.seen.has(signature)) return false;
+        this.seen.set(signature, timestamp);
+        return true;
+    }
+}
@@ -0,0 +1,26 @@
+/**
+ * Byte helpers shared by the node, verifier and tests.
+ */
+
+import { Buffer } from 'node:buffer';
+
+export function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+    if (a.length !== b.length) return false;
+    for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false;
+    return true;
+}
+
+export function bytesToHex(b: Uint8Array): string {
+    return Buffer.from(b).toString('hex');
+}
+
+export function hexToBytes(hex: string): Uint8Array {
+    return new Uint8Array(Buffer.from(hex, 'hex'));
+}
+
+/** Compact's pad(n, s): UTF-8 bytes of s, zero-filled to n bytes */
+export function pad(length: number, text: string): Uint8Array {
+    const out = new Uint8Array(length);
+    out.set(new TextEncoder().encode(text).subarray(0, length));
+    return out;
+}
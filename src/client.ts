@@ -0,0 +1,166 @@
+/**
+ * Player Client
+ *
+ * Talks to a node started with `npm run serve`. The client seals its moves
+ * to the node's key itself and signs every request for its seat (see auth.ts).
+ * `join` hands the identity secret to the node, which then proves for the
+ * seat; player.ts keeps it local and uses `submitJoin` / `submitMove`.
+ * A client given a gameId sends it with every request, so it stays in its
+ * game however many others the node hosts.
+ */
+
+import type { MerkleTreePath } from '@midnight-ntwrk/compact-runtime';
+import { requestAuthKey, signedHeaders } from './auth.ts';
+import { bytesToHex, hexToBytes } from './bytes.ts';
+import {
+    actionContext,
+    deriveEncryptionKeyPair,
+    encryptAction,
+    sharedActionKey,
+    type EncryptionKeyPair
+} from './encryption.ts';
+import { randomBytes } from './entropy.ts';
+import { encodeMerklePath } from './merkle.ts';
+import { expectedKind } from './rules.ts';
+import type { LedgerSnapshot } from './ledgerSnapshot.ts';
+import type { GameListing, NodeEvent, Team } from './node.ts';
+import type { GameSummary } from './summary.ts';
+
+const NIGHT = 1;
+
+export interface PublicState {
+    gameId: string;
+    nodeKey: string;
+    phase: number;
+    round: number;
+    seats: number;
+    players: { id: number; alive: boolean; hasActed: boolean }[];
+    transcriptHash: string | null;
+    winner: Team | null;
+}
+
+export interface PrivateView {
+    id: number;
+    role: number;
+    roleSalt: string;
+    alive: boolean;
+    hasActed: boolean;
+    packmates: number[];
+    seerFindings: { round: number; target: number; isWolf: boolean }[];
+    packProposals: { wolf: number; target: number }[];
+}
+
+export class ApiError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+    }
+}
+
+export class PlayerClient {
+    readonly secretKey: Uint8Array;
+    private keys: EncryptionKeyPair;
+    seat: number | null = null;
+
+    constructor(
+        readonly baseUrl: string,
+        secretKey: Uint8Array = randomBytes(32),
+        public gameId: string | null = null
+    ) {
+        this.secretKey = secretKey;
+        this.keys = deriveEncryptionKeyPair(secretKey);
+    }
+
+    private async request<T>(method: string, path: string, data?: unknown, signed = false): Promise<T> {
+        const body = data === undefined ? "" : JSON.stringify(data);
+        const headers: Record<string, string> = { 'content-type': 'application/json' };
+        if (this.gameId) headers['x-game'] = this.gameId;
+        if (signed) {
+            if (this.seat === null) throw new Error("Join a game first");
+            const state = await this.state();
+            const key = requestAuthKey(this.keys.privateKey, hexToBytes(state.nodeKey));
+            Object.assign(headers, signedHeaders(key, this.seat, method, path, body));
+        }
+
+        const res = await fetch(new URL(path, this.baseUrl), { method, headers, body: body || undefined });
+        const json = await res.json() as any;
+        if (!res.ok) throw new ApiError(res.status, json.error ?? res.statusText);
+        return json as T;
+    }
+
+    games(): Promise<GameListing[]> {
+        return this.request('GET', '/games');
+    }
+
+    state(): Promise<PublicState> {
+        return this.request('GET', '/state');
+    }
+
+    async join(): Promise<number> {
+        const { seat } = await this.request<{ seat: number }>('POST', '/join', { secretKey: bytesToHex(this.secretKey) });
+        this.seat = seat;
+        return seat;
+    }
+
+    ledger(): Promise<LedgerSnapshot> {
+        return this.request('GET', '/ledger');
+    }
+
+    summary(): Promise<GameSummary> {
+        return this.request('GET', '/summary');
+    }
+
+    /** Hands over a joinGame this client ran itself against `base` */
+    async submitJoin(base: string, result: LedgerSnapshot): Promise<number> {
+        const { seat } = await this.request<{ seat: number }>('POST', '/tx/join', { base, result });
+        this.seat = seat;
+        return seat;
+    }
+
+    /** Hands over a nightAction / voteDay this client ran itself against `base`, with the path it proved membership with */
+    async submitMove(envelope: Uint8Array, path: MerkleTreePath<Uint8Array>, base: string, result: LedgerSnapshot): Promise<void> {
+        await this.request('POST', '/tx/move', { envelope: bytesToHex(envelope), path: encodeMerklePath(path), base, result }, true);
+    }
+
+    me(): Promise<PrivateView> {
+        return this.request('GET', '/me', undefined, true);
+    }
+
+    /** Seals the only move this player's role allows this phase and submits it */
+    async act(target: number): Promise<void> {
+        const [state, view] = [await this.state(), await this.me()];
+        const payload = { kind: expectedKind(view.role, state.phase === NIGHT), target };
+        const key = sharedActionKey(this.keys.privateKey, hexToBytes(state.nodeKey));
+        const envelope = encryptAction(key, payload, actionContext(hexToBytes(state.gameId), state.phase, BigInt(state.round)));
+        await this.request('POST', '/action', { envelope: bytesToHex(envelope) }, true);
+    }
+
+    /** Calls `onEvent` for each streamed event of this client's game until the returned stop() is called */
+    async subscribe(onEvent: (event: NodeEvent) => void): Promise<() => void> {
+        const abort = new AbortController();
+        const res = await fetch(new URL('/events', this.baseUrl), { signal: abort.signal });
+        const reader = res.body!.getReader();
+        const decoder = new TextDecoder();
+
+        (async () => {
+            let buffered = "";
+            try {
+                for (;;) {
+                    const { value, done } = await reader.read();
+                    if (done) return;
+                    buffered += decoder.decode(value, { stream: true });
+                    let end: number;
+                    while ((end = buffered.indexOf("\n\n")) !== -1) {
+                        const frame = buffered.slice(0, end);
+                        buffered = buffered.slice(end + 2);
+                        const data = frame.split("\n").find(line => line.startsWith("data: "));
+                        if (!data) continue;
+                        const event: NodeEvent = JSON.parse(data.slice(6));
+                        if (!this.gameId || event.gameId === this.gameId) onEvent(event);
+                    }
+                }
+            } catch { /* aborted */ }
+        })();
+
+        return () => abort.abort();
+    }
+}
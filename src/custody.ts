@@ -0,0 +1,156 @@
+/**
+ * Master Secret Custody
+ *
+ * Every game's fairness rests on its master secret: it seeds the shuffle,
+ * the role salts and the tie breaks, and forceEndGame publishes it so
+ * anyone can check the deal. Before a game is opened the admin picks who
+ * holds it:
+ *
+ *   passphrase  secret = scrypt(passphrase, label || gameId), so the admin can
+ *               re-derive it for any game. The commitment is public, so a
+ *               guessable passphrase gives away every role: hence the minimum.
+ *   shares      a fresh secret split k-of-n (Shamir over GF(256)) among
+ *               co-admins. The node still deals and breaks ties with it, but
+ *               only publishes it (forceEndGame, openings) once k shares
+ *               have been recombined to the on-chain commitment.
+ *
+ * A share travels as one line: ww-share:<gameId>:<k>:<index>:<value>
+ */
+
+import { scryptSync } from 'node:crypto';
+import { bytesToHex, hexToBytes } from './bytes.ts';
+import { randomBytes } from './entropy.ts';
+
+export const MIN_PASSPHRASE_LENGTH = 12;
+export const MAX_SHARES = 255;
+
+const SECRET_BYTES = 32;
+const KDF = { N: 1 << 15, r: 8, p: 1 };
+const SECRET_LABEL = new TextEncoder().encode("werewolf:master-secret:v1");
+const SHARE_PREFIX = "ww-share";
+
+/** What the admin hands the node before opening games */
+export type CustodySetup =
+    | { kind: 'passphrase'; passphrase: string }
+    | { kind: 'shares'; threshold: number; total: number };
+
+/** What a game keeps of its custody: never the passphrase */
+export type CustodyPolicy =
+    | { kind: 'passphrase' }
+    | { kind: 'shares'; threshold: number; total: number };
+
+export interface SecretShare {
+    gameId: string;     // hex; shares of different games never combine
+    threshold: number;  // shares needed to reopen the secret
+    index: number;      // x-coordinate, 1..total
+    value: string;      // hex, one byte per secret byte
+}
+
+/** Every reason this custody cannot be used; empty when valid */
+export function validateCustody(setup: CustodySetup): string[] {
+    if (setup.kind === 'passphrase') {
+        return setup.passphrase.length < MIN_PASSPHRASE_LENGTH
+            ? [`The passphrase needs at least ${MIN_PASSPHRASE_LENGTH} characters`]
+            : [];
+    }
+    const { threshold, total } = setup;
+    const errors: string[] = [];
+    if (!Number.isInteger(total) || total < 2 || total > MAX_SHARES) errors.push(`Share count must be 2-${MAX_SHARES}, got ${total}`);
+    if (!Number.isInteger(threshold) || threshold < 2 || threshold > total) errors.push(`Threshold must be 2-${total}, got ${threshold}`);
+    return errors;
+}
+
+export function custodyPolicy(setup: CustodySetup): CustodyPolicy {
+    return setup.kind === 'passphrase' ? { kind: 'passphrase' } : { kind: 'shares', threshold: setup.threshold, total: setup.total };
+}
+
+export function describeCustody(policy: CustodyPolicy): string {
+    return policy.kind === 'passphrase' ? "passphrase-derived" : `${policy.threshold}-of-${policy.total} shares`;
+}
+
+export function deriveMasterSecret(passphrase: string, gameId: Uint8Array): Uint8Array {
+    const salt = new Uint8Array(SECRET_LABEL.length + gameId.length);
+    salt.set(SECRET_LABEL);
+    salt.set(gameId, SECRET_LABEL.length);
+    const key = scryptSync(passphrase.normalize('NFKC'), salt, SECRET_BYTES, { ...KDF, maxmem: 256 * KDF.N * KDF.r });
+    return new Uint8Array(key);
+}
+
+/** The master secret of a new game, plus the shares to hand out when split */
+export function issueMasterSecret(setup: CustodySetup, gameId: Uint8Array): { secret: Uint8Array; shares: SecretShare[] } {
+    if (setup.kind === 'passphrase') return { secret: deriveMasterSecret(setup.passphrase, gameId), shares: [] };
+    const secret = randomBytes(SECRET_BYTES);
+    return { secret, shares: splitSecret(secret, gameId, setup.threshold, setup.total) };
+}
+
+// ============================================
+// SHAMIR OVER GF(256)
+// ============================================
+
+// Log tables for the AES field x^8 + x^4 + x^3 + x + 1, generator 3
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+for (let i = 0, x = 1; i < 255; i++) {
+    EXP[i] = EXP[i + 255] = x;
+    LOG[x] = i;
+    x ^= ((x << 1) ^ (x & 0x80 ? 0x11b : 0)) & 0xff;
+}
+
+function mul(a: number, b: number): number {
+    return a && b ? EXP[LOG[a] + LOG[b]] : 0;
+}
+
+function div(a: number, b: number): number {
+    return a ? EXP[LOG[a] + 255 - LOG[b]] : 0;
+}
+
+/** One random polynomial of degree k-1 per byte, its constant term the secret byte; share i is every polynomial at x = i */
+export function splitSecret(secret: Uint8Array, gameId: Uint8Array, threshold: number, total: number): SecretShare[] {
+    const errors = validateCustody({ kind: 'shares', threshold, total });
+    if (errors.length > 0) throw new Error(errors.join('; '));
+
+    const coefficients = Array.from(secret, byte => [byte, ...randomBytes(threshold - 1)]);
+    return Array.from({ length: total }, (_, i) => {
+        const x = i + 1;
+        // Horner, highest coefficient first
+        const value = coefficients.map(poly => poly.reduceRight((acc, c) => mul(acc, x) ^ c, 0));
+        return { gameId: bytesToHex(gameId), threshold, index: x, value: bytesToHex(Uint8Array.from(value)) };
+    });
+}
+
+/** Lagrange interpolation at x = 0 over the first `threshold` shares */
+export function combineShares(shares: SecretShare[]): Uint8Array {
+    if (shares.length === 0) throw new Error("No shares given");
+    const { gameId, threshold } = shares[0];
+    if (shares.some(s => s.gameId !== gameId)) throw new Error("Shares belong to different games");
+    if (shares.some(s => s.threshold !== threshold)) throw new Error("Shares disagree on the threshold");
+    const indices = new Set(shares.map(s => s.index));
+    if (indices.size !== shares.length) throw new Error("The same share was given twice");
+    if ([...indices].some(x => !Number.isInteger(x) || x < 1 || x > MAX_SHARES)) throw new Error("Share index out of range");
+    if (shares.length < threshold) throw new Error(`${threshold} shares are needed, got ${shares.length}`);
+
+    const used = shares.slice(0, threshold).map(s => ({ x: s.index, y: hexToBytes(s.value) }));
+    const length = used[0].y.length;
+    if (used.some(s => s.y.length !== length)) throw new Error("Shares have different lengths");
+
+    // Basis weight of each share at 0: prod x_m / (x_m - x_i), subtraction being xor
+    const weights = used.map(({ x }, i) =>
+        used.reduce((w, other, m) => m === i ? w : mul(w, div(other.x, other.x ^ x)), 1));
+    const secret = new Uint8Array(length);
+    for (let j = 0; j < length; j++) {
+        secret[j] = used.reduce((acc, s, i) => acc ^ mul(s.y[j], weights[i]), 0);
+    }
+    return secret;
+}
+
+export function encodeShare(share: SecretShare): string {
+    return [SHARE_PREFIX, share.gameId, share.threshold, share.index, share.value].join(':');
+}
+
+export function decodeShare(text: string): SecretShare {
+    const [prefix, gameId, threshold, index, value, ...rest] = text.trim().split(':');
+    if (prefix !== SHARE_PREFIX || rest.length > 0 || !/^[0-9a-f]{64}$/i.test(gameId ?? "") || !/^[0-9a-f]+$/i.test(value ?? "")) {
+        throw new Error(`Not a ${SHARE_PREFIX} line`);
+    }
+    return { gameId: gameId.toLowerCase(), threshold: Number(threshold), index: Number(index), value: value.toLowerCase() };
+}
@@ -0,0 +1,135 @@
+/**
+ * Action Payload Encryption
+ *
+ * Night actions and day votes travel on-chain as a single Bytes<32>
+ * (`encryptedAction` / `encryptedVote`), so the envelope is sized to fit:
+ *
+ *   nonce (12) || AES-256-GCM ciphertext (4) || tag (16)
+ *
+ * The key is an X25519 agreement between the player's encryption key and the
+ * trusted node's key, so only the node (and the sender) can open a payload.
+ * Submissions are anonymous on-chain; the node finds the sender by trying
+ * each living player's key, and the GCM tag rejects every wrong one.
+ */
+
+import { Buffer } from 'node:buffer';
+import {
+    createCipheriv,
+    createDecipheriv,
+    createHash,
+    createPrivateKey,
+    createPublicKey,
+    diffieHellman
+} from 'node:crypto';
+import { randomBytes } from './entropy.ts';
+
+export const ENVELOPE_BYTES = 32;
+const NONCE_BYTES = 12;
+const PLAINTEXT_BYTES = 4;
+const TAG_BYTES = 16;
+
+const NO_TARGET = 0xff;
+
+/** What the sender claims to be doing with their move */
+export const ActionKind = {
+    Sleep: 0,    // Villagers still submit at night so every role looks alike on-chain
+    Kill: 1,
+    Inspect: 2,
+    Protect: 3,
+    Vote: 4
+}
+
+export interface ActionPayload {
+    kind: number;
+    target: number;  // -1 for no target
+}
+
+export interface EncryptionKeyPair {
+    privateKey: Uint8Array; // Raw X25519 scalar
+    publicKey: Uint8Array;  // Raw X25519 u-coordinate
+}
+
+// DER wrappers for raw X25519 keys (RFC 8410)
+const PKCS8_PREFIX = Buffer.from('302e020100300506032b656e04220420', 'hex');
+const SPKI_PREFIX = Buffer.from('302a300506032b656e032100', 'hex');
+
+const KEY_LABEL = new TextEncoder().encode("werewolf:enc-key");
+const SHARED_LABEL = new TextEncoder().encode("werewolf:action-key");
+
+function privateKeyObject(raw: Uint8Array) {
+    return createPrivateKey({ key: Buffer.concat([PKCS8_PREFIX, raw]), format: 'der', type: 'pkcs8' });
+}
+
+function publicKeyObject(raw: Uint8Array) {
+    return createPublicKey({ key: Buffer.concat([SPKI_PREFIX, raw]), format: 'der', type: 'spki' });
+}
+
+// ============================================
+// KEYS
+// ============================================
+
+/** Deterministic encryption key pair, bound to (but distinct from) an identity secret */
+export function deriveEncryptionKeyPair(secret: Uint8Array): EncryptionKeyPair {
+    const privateKey = new Uint8Array(createHash('sha256').update(KEY_LABEL).update(secret).digest());
+    const spki = createPublicKey(privateKeyObject(privateKey)).export({ format: 'der', type: 'spki' });
+    return { privateKey, publicKey: new Uint8Array(spki.subarray(SPKI_PREFIX.length)) };
+}
+
+/** Symmetric key shared by one player and the node (same value from either side) */
+export function sharedActionKey(myPrivateKey: Uint8Array, theirPublicKey: Uint8Array): Uint8Array {
+    const shared = diffieHellman({ privateKey: privateKeyObject(myPrivateKey), publicKey: publicKeyObject(theirPublicKey) });
+    return new Uint8Array(createHash('sha256').update(SHARED_LABEL).update(shared).digest());
+}
+
+/** Binds a payload to its game, phase and round so it cannot be replayed elsewhere */
+export function actionContext(gameId: Uint8Array, phase: number, round: bigint): Uint8Array {
+    const aad = new Uint8Array(gameId.length + 5);
+    aad.set(gameId, 0);
+    aad[gameId.length] = phase;
+    new DataView(aad.buffer).setUint32(gameId.length + 1, Number(round));
+    return aad;
+}
+
+// ============================================
+// ENVELOPE
+// ============================================
+
+export function encryptAction(
+    key: Uint8Array,
+    payload: ActionPayload,
+    aad: Uint8Array,
+    nonce: Uint8Array = randomBytes(NONCE_BYTES)
+): Uint8Array {
+    const plaintext = new Uint8Array(PLAINTEXT_BYTES);
+    plaintext[0] = payload.kind;
+    plaintext[1] = payload.target < 0 ? NO_TARGET : payload.target;
+
+    const cipher = createCipheriv('aes-256-gcm', key, nonce);
+    cipher.setAAD(aad);
+    const ct = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+    const envelope = new Uint8Array(ENVELOPE_BYTES);
+    envelope.set(nonce, 0);
+    envelope.set(ct, NONCE_BYTES);
+    envelope.set(cipher.getAuthTag(), NONCE_BYTES + PLAINTEXT_BYTES);
+    return envelope;
+}
+
+/** Returns null when the envelope was not sealed with `key` (or was tampered with) */
+export function decryptAction(key: Uint8Array, envelope: Uint8Array, aad: Uint8Array): ActionPayload | null {
+    if (envelope.length !== ENVELOPE_BYTES) return null;
+    const nonce = envelope.subarray(0, NONCE_BYTES);
+    const ct = envelope.subarray(NONCE_BYTES, NONCE_BYTES + PLAINTEXT_BYTES);
+    const tag = envelope.subarray(NONCE_BYTES + PLAINTEXT_BYTES);
+
+    try {
+        const decipher = createDecipheriv('aes-256-gcm', key, nonce);
+        decipher.setAAD(aad);
+        decipher.setAuthTag(tag);
+        const pt = Buffer.concat([decipher.update(ct), decipher.final()]);
+        if (pt[2] !== 0 || pt[3] !== 0) return null;
+        return { kind: pt[0], target: pt[1] === NO_TARGET ? -1 : pt[1] };
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,85 @@
+/**
+ * Entropy
+ *
+ * Every secret in a game comes from here. Roots are drawn from the OS
+ * CSPRNG: game ids, master secrets, the node's per-game key, identity keys
+ * and encryption nonces. Everything a master secret seeds is derived from
+ * it under its own label, so it can be recomputed once forceEndGame
+ * publishes the secret:
+ *
+ *   shuffle block k   deriveKey(masterSecret, "shuffle", k)
+ *   tie key           deriveKey(masterSecret, "ties")
+ *   wolf tie seed     deriveKey(tieKey, "wolf-tie", round)
+ *   day tie seed      deriveKey(tieKey, "day-tie", round)
+ *   role salt         computeSalt(masterSecret, seat), in the contract itself
+ *
+ * Once roles are dealt a node whose co-admins hold the secret as shares
+ * keeps only the tie key, which is all resolving a turn needs.
+ *
+ * Identity keys of seats the node plays are derived from a node root under
+ * "player-identity" rather than from the master secret: the secret is
+ * published, and a rematch seats the same identities again.
+ *
+ *   deriveKey(key, label, index) = HMAC-SHA256(key, "werewolf:" || label || 0x00 || uint32be(index))
+ *
+ * Seeded mode (seedEntropy, or $WW_ENTROPY_SEED at startup) replaces the
+ * CSPRNG with an HMAC stream keyed by the seed, so every root and therefore
+ * every derived value repeats from run to run. It is for tests and replays
+ * only: anyone with the seed knows every secret. The server's admin token and
+ * the snapshot file's salt and nonce are not game secrets and always come
+ * straight from the OS.
+ */
+
+import { createHmac, randomBytes as osRandomBytes } from 'node:crypto';
+
+export const ENTROPY_SEED_ENV = 'WW_ENTROPY_SEED';
+
+const DRAW_LABEL = "seeded-draw";
+
+let seeded: { key: Uint8Array; counter: number } | null = null;
+
+function indexBytes(index: number): Uint8Array {
+    const out = new Uint8Array(4);
+    new DataView(out.buffer).setUint32(0, index);
+    return out;
+}
+
+/** 32 bytes bound to `label` and `index`; a different label never gives the same bytes */
+export function deriveKey(key: Uint8Array, label: string, index = 0): Uint8Array {
+    return new Uint8Array(
+        createHmac('sha256', key)
+            .update(`werewolf:${label}\0`)
+            .update(indexBytes(index))
+            .digest()
+    );
+}
+
+/** Switches every later draw to the stream keyed by `seed`; null goes back to the OS CSPRNG */
+export function seedEntropy(seed: string | Uint8Array | null) {
+    seeded = seed === null ? null : { key: typeof seed === 'string' ? new TextEncoder().encode(seed) : seed, counter: 0 };
+}
+
+export function isSeeded(): boolean {
+    return seeded !== null;
+}
+
+/** Root secret material: the OS CSPRNG, or the seeded stream in test mode */
+export function randomBytes(length: number): Uint8Array {
+    if (!seeded) return new Uint8Array(osRandomBytes(length));
+    const out = new Uint8Array(length);
+    for (let offset = 0; offset < length; offset += 32) {
+        out.set(deriveKey(seeded.key, DRAW_LABEL, seeded.counter++).subarray(0, length - offset), offset);
+    }
+    return out;
+}
+
+/** Uniform in [0, n), by rejection sampling over 32-bit draws */
+export function randomBelow(n: number): number {
+    const limit = Math.floor(0x100000000 / n) * n;
+    for (;;) {
+        const word = new DataView(randomBytes(4).buffer).getUint32(0);
+        if (word < limit) return word % n;
+    }
+}
+
+if (process.env[ENTROPY_SEED_ENV]) seedEntropy(process.env[ENTROPY_SEED_ENV]!);
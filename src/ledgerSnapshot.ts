@@ -0,0 +1,93 @@
+/**
+ * Ledger Snapshots
+ *
+ * The node keeps the only copy of the contract state. A player client that
+ * proves its own calls fetches it as a snapshot, runs the circuit against it
+ * locally and hands back the state the call produced, tagged with the digest
+ * of the snapshot it started from. diffLedgers lists every value such a
+ * state changed, so the node can refuse any write the circuit would not make.
+ */
+
+import { createHash } from 'node:crypto';
+import { ContractState, type ChargedState } from '@midnight-ntwrk/compact-runtime';
+import { bytesToHex, hexToBytes } from './bytes.ts';
+
+export interface LedgerSnapshot {
+    state: string;  // Serialized ContractState, hex
+    digest: string; // sha256 of the serialized state; names the ledger version
+}
+
+export function encodeLedger(data: ChargedState): LedgerSnapshot {
+    const contractState = new ContractState();
+    contractState.data = data;
+    const raw = contractState.serialize();
+    return { state: bytesToHex(raw), digest: createHash('sha256').update(raw).digest('hex') };
+}
+
+export function decodeLedger(snapshot: LedgerSnapshot): ChargedState {
+    const raw = hexToBytes(snapshot.state);
+    if (createHash('sha256').update(raw).digest('hex') !== snapshot.digest) throw new Error("Snapshot digest mismatch");
+    return ContractState.deserialize(raw).data;
+}
+
+// ============================================
+// DIFF
+// ============================================
+
+/** One ledger value a call added, removed or rewrote. Paths run field/key/key, keys in hex or decimal. */
+export interface LedgerChange {
+    path: string;
+    before: string | null;  // ledgerValue of the old value; null when absent
+    after: string | null;
+}
+
+/** A ledger value as comparable JSON: bytes as hex, integers as decimal strings */
+export function ledgerValue(value: unknown): string {
+    return JSON.stringify(value, (_, v) =>
+        typeof v === 'bigint' ? v.toString() : v instanceof Uint8Array ? bytesToHex(v) : v);
+}
+
+function pathKey(key: unknown): string {
+    return key instanceof Uint8Array ? bytesToHex(key) : String(key);
+}
+
+interface LedgerCollection extends Iterable<unknown> {
+    member(key: unknown): boolean;
+    lookup?(key: unknown): unknown;
+}
+
+function isCollection(value: unknown): value is LedgerCollection {
+    return !!value && typeof value === 'object' && typeof (value as LedgerCollection).member === 'function' && Symbol.iterator in value;
+}
+
+// Maps and sets leave a marker too, so an emptied or dropped one still shows
+function flatten(value: unknown, path: string, out: Map<string, string>) {
+    if (!isCollection(value)) {
+        out.set(path, ledgerValue(value));
+    } else if (value.lookup) {
+        out.set(path, "{}");
+        for (const [key] of value as Iterable<[unknown, unknown]>) flatten(value.lookup(key), `${path}/${pathKey(key)}`, out);
+    } else {
+        out.set(path, "[]");
+        for (const member of value) out.set(`${path}/${pathKey(member)}`, "member");
+    }
+}
+
+/** Every value in a `ledger(state)` view, by path */
+export function flattenLedger(view: object): Map<string, string> {
+    const out = new Map<string, string>();
+    for (const [field, value] of Object.entries(view)) flatten(value, field, out);
+    return out;
+}
+
+export function diffLedgers(before: object, after: object): LedgerChange[] {
+    const [was, now] = [flattenLedger(before), flattenLedger(after)];
+    const changes: LedgerChange[] = [];
+    for (const [path, value] of was) {
+        if (now.get(path) !== value) changes.push({ path, before: value, after: now.get(path) ?? null });
+    }
+    for (const [path, value] of now) {
+        if (!was.has(path)) changes.push({ path, before: null, after: value });
+    }
+    return changes;
+}
@@ -0,0 +1,153 @@
+/**
+ * Alive-Set Merkle Tree
+ *
+ * Off-chain mirror of the depth-10 tree checked by `Crypto.verifyMerkleProof`.
+ * Hashing matches `std_merkleTreePathRoot<10, Bytes<32>>`:
+ * - Leaf digest:  degradeToTransient(persistentHash(["mdn:lh", leaf]))
+ * - Inner node:   transientHash<Vector<2, Field>>([left, right])
+ *
+ * Leaves are identity commitments, i.e. `Crypto.hash(leafSecret)`
+ * (the same value `testComputeHash` returns).
+ */
+
+import {
+    Bytes32Descriptor,
+    CompactTypeBytes,
+    CompactTypeField,
+    CompactTypeVector,
+    degradeToTransient,
+    persistentHash,
+    transientHash,
+    type CompactType,
+    type MerkleTreeDigest,
+    type MerkleTreePath,
+    type MerkleTreePathEntry
+} from '@midnight-ntwrk/compact-runtime';
+import { bytesEqual, bytesToHex, hexToBytes } from './bytes.ts';
+
+export const MERKLE_DEPTH = 10;
+export const MERKLE_CAPACITY = 1 << MERKLE_DEPTH;
+
+// Digest used for unoccupied leaf slots. Any constant works, since membership
+// is only ever proven for real leaves.
+const EMPTY_LEAF = 0n;
+
+const LEAF_DOMAIN = new Uint8Array([0x6d, 0x64, 0x6e, 0x3a, 0x6c, 0x68]); // "mdn:lh"
+const LeafDomainDescriptor = new CompactTypeBytes(6);
+const NodePairDescriptor = new CompactTypeVector(2, CompactTypeField);
+
+// Descriptor for the stdlib's LeafPreimage { domain_sep: Bytes<6>, data: Bytes<32> }
+const LeafPreimageDescriptor: CompactType<[Uint8Array, Uint8Array]> = {
+    alignment: () => LeafDomainDescriptor.alignment().concat(Bytes32Descriptor.alignment()),
+    fromValue: (value) => [LeafDomainDescriptor.fromValue(value), Bytes32Descriptor.fromValue(value)],
+    toValue: ([domain, data]) => LeafDomainDescriptor.toValue(domain).concat(Bytes32Descriptor.toValue(data))
+};
+
+// ============================================
+// HASH PRIMITIVES
+// ============================================
+
+/** Identity leaf for a player secret: `Crypto.hash(leafSecret)` */
+export function identityLeaf(leafSecret: Uint8Array): Uint8Array {
+    return persistentHash(Bytes32Descriptor, leafSecret);
+}
+
+export function leafDigest(leaf: Uint8Array): bigint {
+    return degradeToTransient(persistentHash(LeafPreimageDescriptor, [LEAF_DOMAIN, leaf]));
+}
+
+function nodeDigest(left: bigint, right: bigint): bigint {
+    return transientHash(NodePairDescriptor, [left, right]);
+}
+
+/** Recomputes the root of a path exactly like `std_merkleTreePathRoot` */
+export function merklePathRoot(path: MerkleTreePath<Uint8Array>): MerkleTreeDigest {
+    let acc = leafDigest(path.leaf);
+    for (const entry of path.path) {
+        acc = entry.goes_left
+            ? nodeDigest(acc, entry.sibling.field)
+            : nodeDigest(entry.sibling.field, acc);
+    }
+    return { field: acc };
+}
+
+/** A path as JSON, for clients that build their own proof */
+export interface EncodedMerklePath {
+    leaf: string;
+    path: { sibling: string; goes_left: boolean }[];
+}
+
+export function encodeMerklePath(path: MerkleTreePath<Uint8Array>): EncodedMerklePath {
+    return {
+        leaf: bytesToHex(path.leaf),
+        path: path.path.map(e => ({ sibling: e.sibling.field.toString(), goes_left: e.goes_left }))
+    };
+}
+
+export function decodeMerklePath(encoded: EncodedMerklePath): MerkleTreePath<Uint8Array> {
+    if (!Array.isArray(encoded?.path) || encoded.path.length !== MERKLE_DEPTH) throw new Error(`A path has ${MERKLE_DEPTH} entries`);
+    return {
+        leaf: hexToBytes(String(encoded.leaf)),
+        path: encoded.path.map(e => ({ sibling: { field: BigInt(e.sibling) }, goes_left: !!e.goes_left }))
+    };
+}
+
+// Digest of an all-empty subtree at each height, so only populated
+// branches have to be hashed.
+const EMPTY_SUBTREES: bigint[] = [EMPTY_LEAF];
+for (let h = 1; h <= MERKLE_DEPTH; h++) {
+    EMPTY_SUBTREES.push(nodeDigest(EMPTY_SUBTREES[h - 1], EMPTY_SUBTREES[h - 1]));
+}
+
+// ============================================
+// TREE
+// ============================================
+
+export class MerkleTree {
+    readonly leaves: Uint8Array[];
+    // levels[0] holds leaf digests, levels[MERKLE_DEPTH] holds the root
+    private readonly levels: bigint[][];
+
+    constructor(leaves: Uint8Array[]) {
+        if (leaves.length > MERKLE_CAPACITY) {
+            throw new Error(`Merkle tree holds at most ${MERKLE_CAPACITY} leaves`);
+        }
+        this.leaves = leaves;
+        this.levels = [leaves.map(leafDigest)];
+
+        for (let h = 1; h <= MERKLE_DEPTH; h++) {
+            const below = this.levels[h - 1];
+            const level: bigint[] = [];
+            for (let i = 0; i < Math.max(1, Math.ceil(below.length / 2)); i++) {
+                const left = below[2 * i] ?? EMPTY_SUBTREES[h - 1];
+                const right = below[2 * i + 1] ?? EMPTY_SUBTREES[h - 1];
+                level.push(nodeDigest(left, right));
+            }
+            this.levels.push(level);
+        }
+    }
+
+    getRootDigest(): MerkleTreeDigest {
+        return { field: this.levels[MERKLE_DEPTH][0] };
+    }
+
+    indexOf(leaf: Uint8Array): number {
+        return this.leaves.findIndex(l => bytesEqual(l, leaf));
+    }
+
+    getProof(index: number): MerkleTreePath<Uint8Array> {
+        if (index < 0 || index >= this.leaves.length) {
+            throw new Error(`No leaf at index ${index}`);
+        }
+        const path: MerkleTreePathEntry[] = [];
+        let idx = index;
+        for (let h = 0; h < MERKLE_DEPTH; h++) {
+            const isLeft = idx % 2 === 0;
+            const siblingIdx = isLeft ? idx + 1 : idx - 1;
+            const sibling = this.levels[h][siblingIdx] ?? EMPTY_SUBTREES[h];
+            path.push({ sibling: { field: sibling }, goes_left: isLeft });
+            idx = Math.floor(idx / 2);
+        }
+        return { leaf: this.leaves[index], path };
+    }
+}
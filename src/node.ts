@@ -0,0 +1,1456 @@
+/**
+ * Trusted Node
+ *
+ * Holds the master secret and the secrets of every seat it plays itself,
+ * drives the contract and resolves each phase. Seats whose client proves
+ * its own calls (player.ts) keep their identity secret off the node. The terminal UI (ww.ts) and the local
+ * API server (server.ts) are both thin front ends over one TrustedNode.
+ *
+ * One node can host many games on the same contract. Each has its own
+ * secrets and local state (a GameSession); selectGame picks the one that
+ * later calls act on, withGame points a single call at another.
+ *
+ * No game opens until setCustody has said who holds its master secret
+ * (custody.ts). With shares, the node forgets the secret once roles are
+ * dealt, and only publishes it once recombineShares has matched k of them
+ * to the on-chain commitment.
+ */
+
+import { Buffer } from 'node:buffer';
+import { EventEmitter } from 'node:events';
+import { writeFileSync } from 'node:fs';
+import {
+    createConstructorContext,
+    CostModel,
+    emptyZswapLocalState,
+    QueryContext,
+    sampleContractAddress,
+    type CircuitContext,
+    type MerkleTreePath
+} from '@midnight-ntwrk/compact-runtime';
+
+import { Contract, ledger, pureCircuits, type Ledger, type Witnesses } from '../ww-dist/contract/index.js';
+import { MerkleTree, identityLeaf, merklePathRoot } from './merkle.ts';
+import { Role, buildRoleDeck, dayTieSeed, deriveTieKey, shuffleRoles, wolfTieSeed, type SpecialRoles } from './roles.ts';
+import { expectedKind, resolveDay, resolveNight, type DayTieRule, type WolfTieRule } from './rules.ts';
+import { verifyRoleShuffle, type ShuffleReport } from './verifier.ts';
+import { auditTranscript, describeEntry, hash2, moveCountKey, type AuditResult, type GameLog, type TranscriptEntry, type TranscriptStep } from './audit.ts';
+import { verifyOpenings, type OpeningsBundle, type OpeningsReport, type PhaseOpenings } from './openings.ts';
+import { bytesEqual, bytesToHex, hexToBytes } from './bytes.ts';
+import { decodeLedger, diffLedgers, encodeLedger, ledgerValue, type LedgerChange, type LedgerSnapshot } from './ledgerSnapshot.ts';
+import { encryptRole, readOwnRole } from './roleDelivery.ts';
+import { requestAuthKey } from './auth.ts';
+import { summarize, winReason, type GameSummary, type TimelineEvent, type TimelineKind } from './summary.ts';
+import { MAX_PLAYERS, MIN_PLAYERS, validateSetup } from './setup.ts';
+import {
+    combineShares,
+    custodyPolicy,
+    describeCustody,
+    issueMasterSecret,
+    validateCustody,
+    type CustodyPolicy,
+    type CustodySetup,
+    type SecretShare
+} from './custody.ts';
+import { deriveKey, randomBytes } from './entropy.ts';
+import { generateAdminKeyPair, type AdminKeyPair } from './adminKey.ts';
+import { witnesses, withPrivateState, type PlayerSecrets, type PrivateState } from './witnesses.ts';
+import {
+    actionContext,
+    decryptAction,
+    deriveEncryptionKeyPair,
+    encryptAction,
+    sharedActionKey,
+    type ActionPayload,
+    type EncryptionKeyPair
+} from './encryption.ts';
+
+// ============================================
+// ANSI COLORS & STYLING
+// ============================================
+export const C = {
+    RESET: "\x1b[0m",
+    BRIGHT: "\x1b[1m",
+    DIM: "\x1b[2m",
+    RED: "\x1b[31m",
+    GREEN: "\x1b[32m",
+    YELLOW: "\x1b[33m",
+    BLUE: "\x1b[34m",
+    CYAN: "\x1b[36m",
+    MAGENTA: "\x1b[35m",
+    WHITE: "\x1b[37m",
+    BLACK: "\x1b[30m",
+    BG_RED: "\x1b[41m",
+    BG_GREEN: "\x1b[42m"
+};
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const Phase = {
+    Lobby: 0,
+    Night: 1,
+    Day: 2,
+    Finished: 3
+}
+
+export const PHASE_STR = {
+    [Phase.Lobby]:    "LOBBY",
+    [Phase.Night]:    "NIGHT 🌙",
+    [Phase.Day]:      "DAY   ☀️",
+    [Phase.Finished]: "GAME OVER"
+};
+
+export const ROLE_STR = {
+    [Role.Villager]: "Villager 👱",
+    [Role.Werewolf]: "Werewolf 🐺",
+    [Role.Seer]:     "Seer     🔮",
+    [Role.Doctor]:   "Doctor   💉"
+};
+
+// ============================================
+// CRYPTO HELPERS
+// ============================================
+
+export function toHex(b: Uint8Array): string {
+    return Buffer.from(b).toString('hex').slice(0,6);
+}
+
+// ============================================
+// TRUSTED NODE (The "Server")
+// ============================================
+
+interface PlayerPrivateState {
+    id: number;
+    role: number;
+    alive: boolean;
+    secretKey: Uint8Array | null; // Identity secret; null when the player's own client holds it
+    identityLeaf: Uint8Array;     // Hash(secretKey) as registered, the seat's alive-tree leaf
+    roleSalt: Uint8Array;         // Opens roleCommitment; handed to the player with their role
+    roleCommitment: Uint8Array; // Hash(role, salt) as published in PlayerConfig
+    publicKey: Uint8Array; // X25519 key the player encrypts moves with
+    hasActed: boolean;     // Track if they submitted a tx this turn
+}
+
+interface GameOptions extends SpecialRoles {
+    wolfTieRule?: WolfTieRule;
+    dayTieRule?: DayTieRule;
+}
+
+export interface SeerFinding {
+    round: number;
+    target: number;
+    isWolf: boolean;
+}
+
+export type Team = 'village' | 'wolves';
+
+export const TEAM_STR: Record<Team, string> = { village: "THE VILLAGE", wolves: "THE WEREWOLVES" };
+
+/** The side the ledger counts declare; null while playing or after a forced end */
+export function winnerOf(game: { phase: number; werewolfCount: bigint; villagerCount: bigint }): Team | null {
+    if (Number(game.phase) !== Phase.Finished) return null;
+    if (game.werewolfCount === 0n) return 'village';
+    if (game.werewolfCount >= game.villagerCount) return 'wolves';
+    return null;
+}
+
+// Everything the node keeps for one game. The contract keys its ledger by
+// gameId, so games share the contract state and nothing else.
+interface GameSession {
+    gameId: Uint8Array;
+
+    // SECRET DATA (Held only by Trusted Node)
+    masterSecret: Uint8Array | null; // Used for RNG seeding & Fairness; null while co-admins' shares are the only copy
+    tieKey: Uint8Array;              // deriveTieKey(masterSecret): seeds tie breaks without the secret itself
+    roleDeck: number[];       // Announced role composition, before shuffling
+    wolfTieRule: WolfTieRule;
+    dayTieRule: DayTieRule;
+    players: PlayerPrivateState[];
+    joined: { secretKey: Uint8Array | null; publicKey: Uint8Array; identityLeaf: Uint8Array }[]; // Clients seated in the lobby
+    seerFindings: Map<number, SeerFinding[]>; // Seer id -> private visions
+    encryptionKeys: EncryptionKeyPair;  // Players encrypt moves to this key; fresh per game
+    submissions: Uint8Array[];          // Envelopes submitted on-chain this phase
+    transcript: TranscriptEntry[];      // Everything folded into GameState.transcriptHash
+    openings: PhaseOpenings[];          // Plaintext + nonce per accepted envelope, published after the game
+    timeline: TimelineEvent[];          // Kills, saves, lynches and reveals, for the end-of-game summary
+    custody: CustodyPolicy | null;      // Who holds masterSecret; null until a lobby is opened
+    pendingShares: SecretShare[];       // Issued at openLobby, handed out once by takeShares
+    secretReleased: boolean;            // Whether masterSecret may be published (forceEndGame, openings)
+}
+
+function newSession(): GameSession {
+    return {
+        gameId: randomBytes(32),
+        masterSecret: null,
+        tieKey: new Uint8Array(32),
+        roleDeck: [],
+        wolfTieRule: 'random',
+        dayTieRule: 'none',
+        players: [],
+        joined: [],
+        seerFindings: new Map(),
+        encryptionKeys: deriveEncryptionKeyPair(randomBytes(32)),
+        submissions: [],
+        transcript: [],
+        openings: [],
+        timeline: [],
+        custody: null,
+        pendingShares: [],
+        secretReleased: false
+    };
+}
+
+/** A GameSession as JSON, plus what the ledger showed when it was saved. Shares not yet taken are left out. */
+interface SessionRecord {
+    gameId: string;
+    masterSecret: string | null;  // Left out until shares have reopened it
+    tieKey: string;
+    roleDeck: number[];
+    wolfTieRule: WolfTieRule;
+    dayTieRule: DayTieRule;
+    players: (Omit<PlayerPrivateState, 'secretKey' | 'identityLeaf' | 'roleSalt' | 'roleCommitment' | 'publicKey'> & {
+        secretKey: string | null;
+        identityLeaf: string;
+        roleSalt: string;
+        roleCommitment: string;
+        publicKey: string;
+    })[];
+    joined: { secretKey: string | null; publicKey: string; identityLeaf: string }[];
+    seerFindings: [number, SeerFinding[]][];
+    encryptionKeys: { privateKey: string; publicKey: string };
+    submissions: string[];
+    transcript: TranscriptEntry[];
+    openings: PhaseOpenings[];
+    timeline: TimelineEvent[];
+    custody: CustodyPolicy | null;
+    secretReleased: boolean;
+    checkpoint: { phase: number; round: number; transcriptHash: string } | null;
+}
+
+/** Everything a restarted node needs to carry on: see persistence.ts for how it is sealed */
+export interface NodeSnapshot {
+    version: 1;
+    adminKey: string;
+    custody: CustodyPolicy | null;  // Never the passphrase: that is asked for again after a restart
+    identityRoot: string;
+    identitiesIssued: number;
+    selected: string;
+    ledger: LedgerSnapshot;
+    games: SessionRecord[];
+}
+
+/** One row of the node's game list */
+export interface GameListing {
+    gameId: string;
+    phase: number;
+    round: number;
+    seats: number;
+    winner: Team | null;
+}
+
+/** Pushed to listeners (e.g. the API server's event stream) */
+export type NodeEvent =
+    | { type: 'lobby'; gameId: string; seats: number }
+    | { type: 'phase'; gameId: string; phase: number; round: number }
+    | { type: 'gameOver'; gameId: string; winner: Team };
+
+// A self-proved call may write `expected` and nothing else
+function onlyWrote(changes: LedgerChange[], expected: string[]): string | null {
+    const extra = changes.find(c => !expected.includes(c.path));
+    if (extra) return `Call also ${extra.after === null ? "removed" : "wrote"} ${extra.path}`;
+    const missing = expected.find(path => !changes.some(c => c.path === path));
+    return missing ? `Call did not write ${missing}` : null;
+}
+
+export class TrustedNode extends EventEmitter {
+    contract: Contract<PrivateState, Witnesses<PrivateState>>;
+    context: CircuitContext<PrivateState>;
+    adminKey: Uint8Array;
+
+    // Every game this node opened, by hex gameId; calls act on the selected one
+    private sessions = new Map<string, GameSession>();
+    private game: GameSession = newSession();
+    private custody: CustodySetup | null = null;
+    private custodyToRenew: CustodyPolicy | null = null;  // Restored passphrase custody, until setCustody has the passphrase again
+    private identityRoot = randomBytes(32);  // Seeds the identities of seats the node plays itself
+    private identitiesIssued = 0;
+    private logs: string[] = [];
+
+    constructor() {
+        super();
+        this.contract = new Contract(witnesses);
+        const initial = this.contract.initialState(createConstructorContext<PrivateState>(null, '0'.repeat(64)));
+        this.context = {
+            currentPrivateState: initial.currentPrivateState,
+            currentZswapLocalState: initial.currentZswapLocalState,
+            currentQueryContext: new QueryContext(initial.currentContractState.data, sampleContractAddress()),
+            costModel: CostModel.initialCostModel()
+        };
+        this.adminKey = new Uint8Array(32);
+    }
+
+    get gameId(): Uint8Array { return this.game.gameId; }
+
+    // --- GAMES ---
+
+    listGames(): GameListing[] {
+        const selected = this.game;
+        try {
+            return [...this.sessions.values()].map(game => {
+                this.game = game;
+                const state = this.getState();
+                return {
+                    gameId: bytesToHex(game.gameId),
+                    phase: state ? Number(state.phase) : Phase.Lobby,
+                    round: state ? Number(state.round) : 0,
+                    seats: game.joined.length,
+                    winner: state ? winnerOf(state) : null
+                };
+            });
+        } finally {
+            this.game = selected;
+        }
+    }
+
+    // Points every following call at this game; false if the node never opened it
+    selectGame(gameId: string): boolean {
+        const game = this.sessions.get(gameId.toLowerCase());
+        if (game) this.game = game;
+        return !!game;
+    }
+
+    // Runs `call` against this game and then puts the selection back, so one
+    // request can address a game without moving every other caller onto it.
+    // A call that opens or selects another game keeps that selection. Null if
+    // the node never opened the game.
+    withGame<T>(gameId: string, call: () => Promise<T>): Promise<T> | null {
+        const game = this.sessions.get(gameId.toLowerCase());
+        if (!game) return null;
+        const selected = this.game;
+        this.game = game;
+        return call().finally(() => {
+            if (this.game === game) this.game = selected;
+        });
+    }
+
+    // --- LOGGING HELPER ---
+    private logCall(caller: string, func: string, ...args: any[]) {
+        const argStr = args.map(a => 
+            typeof a === 'bigint' ? `${a}n` : 
+            (a instanceof Uint8Array || (a && a.bytes)) ? `Bytes<32>` : 
+            JSON.stringify(a)
+        ).join(', ');
+        
+        const timestamp = new Date().toLocaleTimeString();
+        this.logs.push(`${C.DIM}[${timestamp}]${C.RESET} ${C.CYAN}[${caller}]${C.RESET} called ${C.YELLOW}${func}${C.RESET}(${argStr})`);
+        
+        // Keep log size manageable
+        if (this.logs.length > 8) this.logs.shift();
+    }
+
+    // --- PUBLIC GETTERS FOR UI ---
+    getLogHistory() { return this.logs; }
+    
+    // Only ever handed to the Seer themselves
+    getSeerFindings(seerId: number): SeerFinding[] {
+        const p = this.game.players[seerId];
+        if (!p || p.role !== Role.Seer) return [];
+        return this.game.seerFindings.get(seerId) ?? [];
+    }
+
+    getEncryptionPublicKey(): Uint8Array { return this.game.encryptionKeys.publicKey; }
+
+    // Wolves know each other from the first night
+    getPackmates(wolfId: number): number[] {
+        const p = this.game.players[wolfId];
+        if (!p || p.role !== Role.Werewolf) return [];
+        return this.game.players.filter(w => w.id !== wolfId && w.role === Role.Werewolf).map(w => w.id);
+    }
+
+    // Packmates' pending night targets, visible to living wolves only
+    getPackProposals(wolfId: number): { wolf: number; target: number }[] {
+        const p = this.game.players[wolfId];
+        if (!p || !p.alive || p.role !== Role.Werewolf || this.getPhase() !== Phase.Night) return [];
+        const targets = this.pendingTargets();
+        return this.game.players
+            .filter(w => w.id !== wolfId && w.alive && w.role === Role.Werewolf && targets.has(w.id))
+            .map(w => ({ wolf: w.id, target: targets.get(w.id)! }));
+    }
+
+    // What any player may see: no roles, no secrets
+    getPublicState() {
+        const state = this.getState();
+        return {
+            gameId: bytesToHex(this.gameId),
+            phase: state ? Number(state.phase) : Phase.Lobby,
+            round: state ? Number(state.round) : 0,
+            seats: this.game.joined.length,
+            players: this.game.players.map(p => ({ id: p.id, alive: p.alive, hasActed: p.hasActed })),
+            transcriptHash: state ? bytesToHex(state.transcriptHash) : null,
+            winner: state ? winnerOf(state) : null
+        };
+    }
+
+    // What one player may see about themselves
+    getPrivateView(playerId: number) {
+        const p = this.game.players[playerId];
+        if (!p) return null;
+        return {
+            id: p.id,
+            role: p.role,
+            roleSalt: bytesToHex(p.roleSalt),
+            alive: p.alive,
+            hasActed: p.hasActed,
+            packmates: this.getPackmates(playerId),
+            seerFindings: this.getSeerFindings(playerId),
+            packProposals: this.getPackProposals(playerId)
+        };
+    }
+
+    // Key a seated client signs its API requests with. It derives the same
+    // key from its own secret and getEncryptionPublicKey().
+    authKeyFor(seat: number): Uint8Array | null {
+        const joined = this.game.joined[seat];
+        return joined ? requestAuthKey(this.game.encryptionKeys.privateKey, joined.publicKey) : null;
+    }
+
+    // Everything the node knows per seat; only the God view shows it
+    getRoster() {
+        return this.game.players.map(p => ({
+            id: p.id,
+            role: p.role,
+            alive: p.alive,
+            hasActed: p.hasActed
+        }));
+    }
+
+    // Runs a circuit with one player's private state answering its witnesses,
+    // then unloads it so later calls cannot read it by accident
+    private asPlayer<T>(
+        state: PlayerSecrets,
+        call: (context: CircuitContext<PrivateState>) => { context: CircuitContext<PrivateState>; result: T }
+    ): T {
+        const r = call(withPrivateState(this.context, state));
+        this.context = withPrivateState(r.context, null);
+        return r.result;
+    }
+
+    // Witness answers for a seat. revealPlayerRole reads only the role and salt
+    // the node dealt, so it also works for seats whose secret it never saw.
+    private secretsOf(p: PlayerPrivateState): PlayerSecrets {
+        return { secretKey: p.secretKey ?? new Uint8Array(32), role: p.role, roleSalt: p.roleSalt };
+    }
+
+    private emitPhase() {
+        const state = this.getState();
+        if (!state) return;
+        this.emit('event', { type: 'phase', gameId: bytesToHex(this.gameId), phase: Number(state.phase), round: Number(state.round) } satisfies NodeEvent);
+    }
+
+    // --- ALIVE SET ---
+
+    // Only living players are leaves, so an eliminated player can no longer
+    // prove membership once the rebuilt root is published. `dying` is left out
+    // ahead of time, for the root a resolve circuit publishes.
+    private buildAliveTree(dying = -1): MerkleTree {
+        return new MerkleTree(this.game.players.filter(p => p.alive && p.id !== dying).map(p => p.identityLeaf));
+    }
+
+    // --- GAME ACTIONS ---
+
+    // The node proves as `keys` from here on: ownPublicKey() is the coin
+    // public key of its Zswap local state. Games it opens record that key,
+    // so call this once, before the first openLobby.
+    async initAdmin(keys: AdminKeyPair = generateAdminKeyPair()) {
+        this.useAdminKey(keys.publicKey);
+        this.logCall("ADMIN", "getAdminKey");
+        const r = this.contract.circuits.getAdminKey(this.context);
+        this.context = r.context;
+        if (!bytesEqual(r.result.bytes, keys.publicKey)) {
+            throw new Error(`The contract sees ${bytesToHex(r.result.bytes).slice(0, 12)}.. as the caller, not the admin key`);
+        }
+    }
+
+    private useAdminKey(publicKey: Uint8Array) {
+        this.context = { ...this.context, currentZswapLocalState: emptyZswapLocalState(bytesToHex(publicKey)) };
+        this.adminKey = publicKey;
+    }
+
+    // --- MASTER SECRET CUSTODY ---
+
+    // Applies to every game opened from now on; games already open keep theirs
+    setCustody(setup: CustodySetup): boolean {
+        const errors = validateCustody(setup);
+        if (errors.length > 0) {
+            for (const e of errors) this.logs.push(`${C.RED} ❌ ${e} ${C.RESET}`);
+            return false;
+        }
+        this.custody = setup;
+        this.custodyToRenew = null;
+        this.logs.push(`${C.CYAN} 🔐 Master secrets from now on: ${describeCustody(custodyPolicy(setup))} ${C.RESET}`);
+        return true;
+    }
+
+    hasCustody(): boolean { return this.custody !== null; }
+
+    // What a restored node ran before its restart, while it waits for the passphrase
+    getCustodyToRenew(): CustodyPolicy | null { return this.custodyToRenew; }
+
+    getCustody(): CustodyPolicy | null { return this.game.custody; }
+
+    // The selected game's shares, once: the node keeps no copy to hand out again
+    takeShares(): SecretShare[] {
+        const shares = this.game.pendingShares;
+        this.game.pendingShares = [];
+        return shares;
+    }
+
+    // True while the selected game's secret waits for its co-admins: in the
+    // lobby only when a restart left the node without it to deal roles, after
+    // that until they agree to publish it
+    needsShares(): boolean {
+        if (this.game.custody?.kind !== 'shares') return false;
+        return this.getPhase() === Phase.Lobby ? this.game.masterSecret === null : !this.game.secretReleased;
+    }
+
+    // The secret forceEndGame and the openings may publish, once custody allows
+    private releasedSecret(): Uint8Array | null {
+        return this.game.secretReleased ? this.game.masterSecret : null;
+    }
+
+    // Co-admins' shares, accepted only if they reopen the secret this game
+    // committed to on-chain
+    recombineShares(shares: SecretShare[]): boolean {
+        if (!this.needsShares()) return true;
+        const state = this.getState();
+        try {
+            if (!state) throw new Error("The game is not on the ledger");
+            if (shares.some(s => s.gameId !== bytesToHex(this.gameId))) throw new Error("Shares are for another game");
+            const secret = combineShares(shares);
+            if (!bytesEqual(pureCircuits.testComputeHash(secret), state.masterSecretCommitment)) {
+                throw new Error("Shares do not open the master secret commitment");
+            }
+            this.game.masterSecret = secret;
+        } catch (e: any) {
+            this.logs.push(`${C.RED} ❌ ${e?.message ?? e} ${C.RESET}`);
+            return false;
+        }
+        // Reopened in the lobby it only deals roles, and startGame drops it again
+        if (this.getPhase() === Phase.Lobby) {
+            this.logs.push(`${C.GREEN} 🔓 ${shares.length} shares reopened the master secret to deal roles ${C.RESET}`);
+            return true;
+        }
+        this.game.secretReleased = true;
+        this.logs.push(`${C.GREEN} 🔓 ${shares.length} shares reopened the master secret ${C.RESET}`);
+        return true;
+    }
+
+    // --- LOBBY ---
+
+    async openLobby(minPlayers = MIN_PLAYERS, maxPlayers = MAX_PLAYERS): Promise<boolean> {
+        // initGame's bounds, checked before a new game is set up
+        if (minPlayers < MIN_PLAYERS || minPlayers > maxPlayers || maxPlayers > MAX_PLAYERS) {
+            this.logs.push(`${C.RED} ❌ Lobby of ${minPlayers}-${maxPlayers} seats is outside ${MIN_PLAYERS}-${MAX_PLAYERS} ${C.RESET}`);
+            return false;
+        }
+        // The commitment below fixes the secret, so its custody comes first
+        if (!this.custody) {
+            this.logs.push(`${C.RED} ❌ Set up master secret custody before opening a game ${C.RESET}`);
+            return false;
+        }
+        // Fresh ids and secrets; the node key too, so publishing it after this
+        // game opens nothing in any other
+        const game = newSession();
+        const { secret, shares } = issueMasterSecret(this.custody, game.gameId);
+        game.masterSecret = secret;
+        game.tieKey = deriveTieKey(secret);
+        game.custody = custodyPolicy(this.custody);
+        game.pendingShares = shares;
+        game.secretReleased = this.custody.kind === 'passphrase';
+        const masterCommitment = pureCircuits.testComputeHash(secret);
+
+        // The selected game only changes once the ledger holds the new one
+        this.logCall("ADMIN", "createGame", `ID:${toHex(game.gameId)}`, `Commit:${toHex(masterCommitment)}`, `Seats:${minPlayers}-${maxPlayers}`);
+        try {
+            const r = this.contract.circuits.createGame(
+                this.context,
+                game.gameId,
+                { bytes: this.adminKey },
+                masterCommitment,
+                BigInt(minPlayers),
+                BigInt(maxPlayers)
+            );
+            this.context = r.context;
+        } catch (e: any) {
+            this.logs.push(`${C.RED} ❌ createGame rejected: ${e?.message ?? e} ${C.RESET}`);
+            return false;
+        }
+        this.game = game;
+        this.sessions.set(bytesToHex(game.gameId), game);
+        this.emit('event', { type: 'lobby', gameId: bytesToHex(game.gameId), seats: 0 } satisfies NodeEvent);
+        return true;
+    }
+
+    // Player side: a client brings its own identity secret (a fresh one when
+    // the node stands in for it) and registers its encryption key and the
+    // leaf derived from the secret.
+    async joinLobby(secretKey: Uint8Array = this.issueIdentity()): Promise<number | null> {
+        const publicKey = deriveEncryptionKeyPair(secretKey).publicKey;
+        const state: PlayerSecrets = { secretKey, role: Role.Villager, roleSalt: new Uint8Array(32) };
+
+        this.logCall("NEW PLAYER", "joinGame", `PK:${toHex(publicKey)}`);
+        try {
+            const seat = Number(this.asPlayer(state, ctx => this.contract.circuits.joinGame(ctx, this.gameId, { bytes: publicKey })));
+            this.game.joined[seat] = { secretKey, publicKey, identityLeaf: identityLeaf(secretKey) };
+            this.emit('event', { type: 'lobby', gameId: bytesToHex(this.gameId), seats: this.game.joined.length } satisfies NodeEvent);
+            return seat;
+        } catch (e: any) {
+            this.logs.push(`${C.RED} ❌ joinGame rejected: ${e?.message ?? e} ${C.RESET}`);
+            return null;
+        }
+    }
+
+    // Not from the master secret, which forceEndGame publishes (see entropy.ts)
+    private issueIdentity(): Uint8Array {
+        return deriveKey(this.identityRoot, 'player-identity', this.identitiesIssued++);
+    }
+
+    async startGame(wolves: number, options: GameOptions = { seer: true, doctor: true }): Promise<boolean> {
+        const count = this.game.joined.length;
+        const errors = validateSetup({
+            players: count,
+            wolves,
+            seer: !!options.seer,
+            doctor: !!options.doctor,
+            wolfTieRule: options.wolfTieRule ?? 'random',
+            dayTieRule: options.dayTieRule ?? 'none'
+        });
+        if (errors.length > 0) {
+            for (const e of errors) this.logs.push(`${C.RED} ❌ ${e} ${C.RESET}`);
+            return false;
+        }
+
+        // Only missing when a restart dropped it: the shares bring it back
+        const secret = this.game.masterSecret;
+        if (!secret) {
+            this.logs.push(`${C.RED} ❌ Dealing roles needs the master secret: recombine its shares first ${C.RESET}`);
+            return false;
+        }
+
+        this.game.roleDeck = buildRoleDeck(count, wolves, options);
+        this.game.wolfTieRule = options.wolfTieRule ?? 'random';
+        this.game.dayTieRule = options.dayTieRule ?? 'none';
+        const roles = shuffleRoles(secret, this.game.roleDeck);
+
+        this.game.players = this.game.joined.map(({ secretKey, publicKey, identityLeaf: leaf }, i) => {
+            const role = roles[i];
+            // Salts come from the master secret exactly as verifyFairness re-derives them
+            const salt = pureCircuits.testComputeSalt(secret, BigInt(i));
+            return {
+                id: i,
+                role,
+                alive: true,
+                secretKey,
+                identityLeaf: leaf,
+                roleSalt: salt,
+                roleCommitment: pureCircuits.testComputeCommitment(BigInt(role), salt),
+                publicKey,
+                hasActed: false
+            };
+        });
+
+        const assignments = Array(10).fill(null).map((_, i) => ({
+            roleCommitment: i < count ? this.game.players[i].roleCommitment : new Uint8Array(32),
+            encryptedRole: i < count
+                ? encryptRole(this.game.encryptionKeys.privateKey, this.game.players[i].publicKey, this.gameId, i, this.game.players[i].role)
+                : { x: 0n, y: 0n }
+        }));
+
+        const root = this.buildAliveTree().getRootDigest();
+        this.logCall("ADMIN", "startGame", `Players:${count}`, `Wolves:${wolves}`, `Root:${root.field.toString(16).slice(0, 6)}`);
+        try {
+            const r = this.contract.circuits.startGame(this.context, this.gameId, root, assignments, BigInt(wolves));
+            this.context = r.context;
+            if (this.game.custody?.kind === 'shares') {
+                // Roles and salts are dealt; from here the co-admins hold the only copy
+                this.game.masterSecret = null;
+                this.logs.push(`${C.CYAN} 🔒 Master secret dropped; only its shares can reopen it ${C.RESET}`);
+            }
+            this.emitPhase();
+            return true;
+        } catch (e: any) {
+            this.game.players = [];
+            this.logs.push(`${C.RED} ❌ startGame rejected: ${e?.message ?? e} ${C.RESET}`);
+            return false;
+        }
+    }
+
+    async cancelLobby() {
+        this.logCall("ADMIN", "cancelGame", `ID:${toHex(this.gameId)}`);
+        try {
+            const r = this.contract.circuits.cancelGame(this.context, this.gameId);
+            this.context = r.context;
+            // Gone from the ledger, so gone from the game list too
+            const gameId = bytesToHex(this.gameId);
+            this.sessions.delete(gameId);
+            this.game = newSession();
+            this.logs.push(`${C.YELLOW} 🚪 Lobby cancelled. ${C.RESET}`);
+            this.emit('event', { type: 'lobby', gameId, seats: 0 } satisfies NodeEvent);
+        } catch (e: any) {
+            this.logs.push(`${C.RED} ❌ cancelGame rejected: ${e?.message ?? e} ${C.RESET}`);
+        }
+    }
+
+    // --- NEXT GAME ---
+
+    // A fresh game on the same contract: openLobby draws a new gameId, master
+    // secret and node key, and everyone joins again with a new identity. The
+    // finished game stays on the ledger, and in listGames, under its own id.
+    async resetGame(minPlayers = MIN_PLAYERS, maxPlayers = MAX_PLAYERS): Promise<boolean> {
+        const previous = toHex(this.gameId);
+        if (!await this.openLobby(minPlayers, maxPlayers)) return false;
+        this.logs.push(`${C.CYAN} 🔄 New game opened; game ${previous} stays on the ledger. ${C.RESET}`);
+        return true;
+    }
+
+    // Same table, new deal: the previous identities re-join in their old seat
+    // order and the same deck is shuffled with the new master secret. Seats
+    // whose secret only their own client holds have to re-join themselves;
+    // until they have, the lobby waits for the admin's start.
+    async rematch(): Promise<boolean> {
+        if (this.getPhase() !== Phase.Finished) {
+            this.logs.push(`${C.RED} ❌ Rematch is only offered once the game is over ${C.RESET}`);
+            return false;
+        }
+        const previous = this.game.joined;
+        const deck = this.game.roleDeck;
+        const options: GameOptions = {
+            seer: deck.includes(Role.Seer),
+            doctor: deck.includes(Role.Doctor),
+            wolfTieRule: this.game.wolfTieRule,
+            dayTieRule: this.game.dayTieRule
+        };
+
+        if (!await this.resetGame(previous.length, previous.length)) return false;
+        for (const seat of previous) {
+            if (seat.secretKey) await this.joinLobby(seat.secretKey);
+        }
+        const waiting = previous.length - this.game.joined.length;
+        if (waiting > 0) {
+            this.logs.push(`${C.YELLOW} ⏳ Rematch waits for ${waiting} self-custody player(s) to re-join. ${C.RESET}`);
+            return false;
+        }
+        return this.startGame(deck.filter(r => r === Role.Werewolf).length, options);
+    }
+
+    // Registered seats as the ledger shows them
+    getLobby(): { seats: { id: number; publicKey: Uint8Array; identityLeaf: Uint8Array }[]; minPlayers: number; maxPlayers: number } | null {
+        const l = ledger(this.context.currentQueryContext.state);
+        if (!l.Werewolf_lobbySettings.member(this.gameId)) return null;
+        const settings = l.Werewolf_lobbySettings.lookup(this.gameId);
+        const seats = [...l.Werewolf_registrations.lookup(this.gameId)]
+            .map(([id, reg]) => ({ id: Number(id), publicKey: reg.publicKey.bytes, identityLeaf: reg.identityLeaf }))
+            .sort((a, b) => a.id - b.id);
+        return { seats, minPlayers: Number(settings.minPlayers), maxPlayers: Number(settings.maxPlayers) };
+    }
+
+    // The node stands in for the player's client: seal the move, then submit it
+    async submitAction(playerId: number, targetId: number): Promise<boolean> {
+        const p = this.game.players[playerId];
+        if (!p?.alive) return false;
+        const payload = { kind: expectedKind(p.role, this.getPhase() === Phase.Night), target: targetId };
+        return this.submitEnvelope(playerId, this.sealAction(p, payload));
+    }
+
+    // An envelope sealed by the player's own client. It has to open under that
+    // player's key, so nobody can move in another player's name.
+    private openEnvelope(p: PlayerPrivateState, envelope: Uint8Array): ActionPayload | null {
+        const aad = actionContext(this.gameId, this.getPhase(), this.getRound());
+        const payload = decryptAction(sharedActionKey(this.game.encryptionKeys.privateKey, p.publicKey), envelope, aad);
+        if (!payload) this.logs.push(`${C.RED} ❌ Player ${p.id}: envelope does not open under their key ${C.RESET}`);
+        return payload;
+    }
+
+    private recordMove(p: PlayerPrivateState, payload: ActionPayload, envelope: Uint8Array) {
+        this.game.submissions.push(envelope);
+        this.recordTranscript({ kind: 'move', round: Number(this.getRound()), phase: this.getPhase(), payload: bytesToHex(envelope) });
+        this.recordOpening(p, payload, envelope);
+        p.hasActed = true;
+    }
+
+    // For seats this node plays: it holds the secret, so it proves the call
+    async submitEnvelope(playerId: number, envelope: Uint8Array): Promise<boolean> {
+        const p = this.game.players[playerId];
+        if (!p?.alive || !p.secretKey) return false;
+
+        const payload = this.openEnvelope(p, envelope);
+        if (!payload) return false;
+
+        const phase = this.getPhase();
+        const tree = this.buildAliveTree();
+        const proof = tree.getProof(tree.indexOf(p.identityLeaf));
+        const circuit = phase === Phase.Night ? "nightAction" : "voteDay";
+
+        this.logCall(`Player ${playerId}`, circuit, `Target:${payload.target}`, "Proof...");
+        try {
+            this.asPlayer(this.secretsOf(p), ctx => phase === Phase.Night
+                ? this.contract.circuits.nightAction(ctx, this.gameId, envelope, proof)
+                : this.contract.circuits.voteDay(ctx, this.gameId, envelope, proof));
+            this.recordMove(p, payload, envelope);
+            return true;
+        } catch (e: any) {
+            this.logs.push(`${C.RED} ❌ ${circuit} rejected: ${e?.message ?? e} ${C.RESET}`);
+            return false;
+        }
+    }
+
+    // --- SELF-PROVED CALLS ---
+
+    // What a client that proves its own calls (player.ts) runs them against
+    ledgerSnapshot(): LedgerSnapshot {
+        return encodeLedger(this.context.currentQueryContext.state);
+    }
+
+    // The node stands in for the chain here. A chain takes the new state on the
+    // strength of the call's proof; --skip-zk builds carry none, so the node
+    // checks what it can see: the call started from the current ledger, and
+    // every value it changed is one that circuit writes, changed the way the
+    // circuit changes it. Any other write is a forged state.
+    private adoptLedger(
+        circuit: string,
+        base: string,
+        result: LedgerSnapshot,
+        check: (before: Ledger, after: Ledger, changes: LedgerChange[]) => string | null
+    ): boolean {
+        try {
+            if (this.ledgerSnapshot().digest !== base) throw new Error("Built on a stale ledger");
+            const next = decodeLedger(result);
+            const [before, after] = [ledger(this.context.currentQueryContext.state), ledger(next)];
+            const problem = check(before, after, diffLedgers(before, after));
+            if (problem) throw new Error(problem);
+            this.context = { ...this.context, currentQueryContext: new QueryContext(next, sampleContractAddress()) };
+            return true;
+        } catch (e: any) {
+            this.logs.push(`${C.RED} ❌ ${circuit} rejected: ${e?.message ?? e} ${C.RESET}`);
+            return false;
+        }
+    }
+
+    // A joinGame the player's client ran with its own secret: one seat taken,
+    // registered, and its leaf marked as used
+    async acceptJoin(base: string, result: LedgerSnapshot): Promise<number | null> {
+        let seat = -1n;
+        const game = bytesToHex(this.gameId);
+        this.logCall("NEW PLAYER", "joinGame", "Self-proved");
+        const ok = this.adoptLedger("joinGame", base, result, (before, after, changes) => {
+            const was = before.Werewolf_games.lookup(this.gameId);
+            const now = after.Werewolf_games.lookup(this.gameId);
+            if (Number(was.phase) !== Phase.Lobby) return "Lobby is closed";
+            // The contract's own bound, and the seats startGame and cancelGame ever look at
+            const { maxPlayers } = before.Werewolf_lobbySettings.lookup(this.gameId);
+            if (was.playerCount >= maxPlayers || was.playerCount >= BigInt(MAX_PLAYERS)) return "Lobby is full";
+            if (ledgerValue(now) !== ledgerValue({ ...was, playerCount: was.playerCount + 1n })) return "Call did not take exactly one seat";
+            seat = was.playerCount;
+            const registrations = after.Werewolf_registrations.lookup(this.gameId);
+            if (!registrations.member(seat)) return "Seat was not registered";
+            const leafKey = hash2(this.gameId, registrations.lookup(seat).identityLeaf);
+            return onlyWrote(changes, [
+                `Werewolf_games/${game}`,
+                `Werewolf_registrations/${game}/${seat}`,
+                `Werewolf_registeredLeaves/${bytesToHex(leafKey)}`
+            ]);
+        });
+        if (!ok) return null;
+
+        const reg = ledger(this.context.currentQueryContext.state).Werewolf_registrations.lookup(this.gameId).lookup(seat);
+        this.game.joined[Number(seat)] = { secretKey: null, publicKey: reg.publicKey.bytes, identityLeaf: reg.identityLeaf };
+        this.emit('event', { type: 'lobby', gameId: bytesToHex(this.gameId), seats: this.game.joined.length } satisfies NodeEvent);
+        return Number(seat);
+    }
+
+    // A nightAction / voteDay the player's client proved with its own secret,
+    // along with the alive-tree path it proved membership with. The call
+    // writes the transcript, one new nullifier and the phase's move counter.
+    async acceptMove(playerId: number, envelope: Uint8Array, path: MerkleTreePath<Uint8Array>, base: string, result: LedgerSnapshot): Promise<boolean> {
+        const p = this.game.players[playerId];
+        if (!p?.alive) return false;
+
+        // The node cannot tell how a nullifier was derived, so it holds each
+        // seat to the circuit's one move per phase itself
+        const phase = this.getPhase();
+        if (phase !== Phase.Night && phase !== Phase.Day) {
+            this.logs.push(`${C.RED} ❌ Player ${playerId}: no moves in the ${PHASE_STR[phase]} phase ${C.RESET}`);
+            return false;
+        }
+        if (p.hasActed) {
+            this.logs.push(`${C.RED} ❌ Player ${playerId} already moved this phase ${C.RESET}`);
+            return false;
+        }
+
+        const payload = this.openEnvelope(p, envelope);
+        if (!payload) return false;
+
+        const night = phase === Phase.Night;
+        const circuit = night ? "nightAction" : "voteDay";
+        const game = bytesToHex(this.gameId);
+        this.logCall(`Player ${playerId}`, circuit, "Self-proved");
+        const ok = this.adoptLedger(circuit, base, result, (before, after, changes) => {
+            const was = before.Werewolf_games.lookup(this.gameId);
+            const now = after.Werewolf_games.lookup(this.gameId);
+            if (Number(was.phase) !== phase) return "Game is not in this phase";
+            if (!bytesEqual(path.leaf, p.identityLeaf)) return "Path is not for this seat's leaf";
+            if (merklePathRoot(path).field !== was.aliveTreeRoot.field) return "Path does not fold to the alive-tree root";
+            if (ledgerValue(now) !== ledgerValue({ ...was, transcriptHash: hash2(was.transcriptHash, envelope) })) {
+                return "Call changed the game beyond folding in this envelope";
+            }
+
+            const spent = changes.filter(c => c.path.startsWith("Werewolf_voteNullifiers/"));
+            if (spent.length !== 1 || spent[0].before !== null) return "Call did not spend exactly one new nullifier";
+            const key = moveCountKey(this.gameId, night, was.round);
+            const count = (l: Ledger) => l.Werewolf_movesSubmittedCount.member(key) ? l.Werewolf_movesSubmittedCount.lookup(key) : 0n;
+            if (count(after) !== count(before) + 1n) return "Move counter did not go up by one";
+            return onlyWrote(changes, [`Werewolf_games/${game}`, spent[0].path, `Werewolf_movesSubmittedCount/${bytesToHex(key)}`]);
+        });
+        if (ok) this.recordMove(p, payload, envelope);
+        return ok;
+    }
+
+    async resolveTurn() {
+        const phase = this.getPhase();
+        const round = this.getRound();
+
+        if (phase === Phase.Night) {
+            const outcome = resolveNight(this.game.players, this.pendingTargets(), {
+                wolfTieRule: this.game.wolfTieRule,
+                tieSeed: wolfTieSeed(this.game.tieKey, Number(round))
+            });
+            const victim = outcome.victim;
+            const hasDeath = victim !== -1;
+
+            // Nothing about the night is kept until the ledger takes the outcome;
+            // a rejected resolve leaves the moves in place for another try
+            const newRoot = this.buildAliveTree(victim).getRootDigest();
+            this.logCall("ADMIN", "resolveNightPhase", round + 1n, victim, hasDeath, `Root:${newRoot.field.toString(16).slice(0, 6)}`);
+            try {
+                const r = this.contract.circuits.resolveNightPhase(
+                    this.context,
+                    this.gameId,
+                    round + 1n,
+                    BigInt(victim >= 0 ? victim : 0),
+                    hasDeath,
+                    newRoot
+                );
+                this.context = r.context;
+            } catch (e: any) {
+                this.logs.push(`${C.RED} ❌ resolveNightPhase rejected: ${e?.message ?? e} ${C.RESET}`);
+                return;
+            }
+            this.recordTranscript({ kind: 'outcome', round: Number(round), phase, idx: victim >= 0 ? victim : 0, hasDeath });
+
+            // Seer answers are private: stored for the Seer, never logged
+            for (const v of outcome.visions) {
+                const findings = this.game.seerFindings.get(v.seer) ?? [];
+                findings.push({ round: Number(round), target: v.target, isWolf: v.isWolf });
+                this.game.seerFindings.set(v.seer, findings);
+            }
+            if (outcome.visions.length > 0) {
+                this.logs.push(`${C.CYAN} 🔮 The Seer received a vision. ${C.RESET}`);
+            }
+
+            if (outcome.packSplit) {
+                const settled = outcome.wolfTarget === -1 ? "nobody" : `Player ${outcome.wolfTarget}`;
+                this.logs.push(`${C.YELLOW} 🐺 The pack was split; tie rule '${this.game.wolfTieRule}' chose ${settled}. ${C.RESET}`);
+            }
+
+            if (hasDeath) {
+                this.game.players[victim].alive = false;
+                this.logs.push(`${C.BG_RED}${C.WHITE} 💀 KILL: Werewolves killed Player ${victim} ${C.RESET}`);
+                this.noteEvent(round, phase, 'kill', victim);
+            } else if (outcome.saved) {
+                this.logs.push(`${C.GREEN} 💉 SAVED: The Doctor protected Player ${outcome.protectedId} from the wolves. ${C.RESET}`);
+                this.noteEvent(round, phase, 'save', outcome.protectedId);
+            } else if (outcome.packSplit) {
+                this.logs.push(`${C.GREEN} 🌙 Night passed peacefully: the pack could not agree. ${C.RESET}`);
+                this.noteEvent(round, phase, 'quiet', null);
+            } else {
+                this.logs.push(`${C.GREEN} 🌙 Night passed peacefully: the wolves did not strike. ${C.RESET}`);
+                this.noteEvent(round, phase, 'quiet', null);
+            }
+            if (hasDeath) await this.settleDeath(victim, round, phase);
+
+        } else if (phase === Phase.Day) {
+            // Logic: Majority Vote
+            const { eliminated, tied } = resolveDay(this.game.players, this.pendingTargets(), {
+                dayTieRule: this.game.dayTieRule,
+                tieSeed: dayTieSeed(this.game.tieKey, Number(round))
+            });
+            if (tied && eliminated !== -1) {
+                this.logs.push(`${C.YELLOW} ⚖️  The vote was tied; tie rule '${this.game.dayTieRule}' chose Player ${eliminated}. ${C.RESET}`);
+            }
+
+            const hasElim = eliminated !== -1;
+            const newRoot = this.buildAliveTree(eliminated).getRootDigest();
+            this.logCall("ADMIN", "resolveDayPhase", eliminated, hasElim, `Root:${newRoot.field.toString(16).slice(0, 6)}`);
+            try {
+                const r = this.contract.circuits.resolveDayPhase(
+                    this.context,
+                    this.gameId,
+                    BigInt(eliminated >= 0 ? eliminated : 0),
+                    hasElim,
+                    newRoot
+                );
+                this.context = r.context;
+            } catch (e: any) {
+                this.logs.push(`${C.RED} ❌ resolveDayPhase rejected: ${e?.message ?? e} ${C.RESET}`);
+                return;
+            }
+            this.recordTranscript({ kind: 'outcome', round: Number(round), phase, idx: eliminated >= 0 ? eliminated : 0, hasDeath: hasElim });
+
+            if (hasElim) {
+                this.game.players[eliminated].alive = false;
+                this.logs.push(`${C.BG_RED}${C.WHITE} 🔥 LYNCH: The town voted out Player ${eliminated} ${C.RESET}`);
+                this.noteEvent(round, phase, 'lynch', eliminated);
+            } else {
+                this.logs.push(`${C.YELLOW} 🕊️  Vote tied. No one died. ${C.RESET}`);
+                this.noteEvent(round, phase, 'spared', null);
+            }
+            if (hasElim) await this.settleDeath(eliminated, round, phase);
+        }
+
+        // Reset turn flags
+        this.game.players.forEach(p => { p.hasActed = false; });
+        this.game.submissions = [];
+        this.emitPhase();
+    }
+
+    private noteEvent(round: bigint, phase: number, kind: TimelineKind, player: number | null, role: number | null = null) {
+        this.game.timeline.push({ round: Number(round), phase, kind, player, role });
+    }
+
+    // --- TRANSCRIPT ---
+
+    // Pairs each entry with the hash the ledger holds right after it
+    private recordTranscript(step: TranscriptStep) {
+        const state = this.getState();
+        if (!state) return;
+        this.game.transcript.push({ ...step, transcriptAfter: bytesToHex(state.transcriptHash) });
+    }
+
+    exportGameLog(): GameLog {
+        const state = this.getState();
+        return {
+            version: 1,
+            gameId: bytesToHex(this.gameId),
+            entries: this.game.transcript,
+            ledgerTranscriptHash: state ? bytesToHex(state.transcriptHash) : ""
+        };
+    }
+
+    writeGameLog(path: string) {
+        writeFileSync(path, JSON.stringify(this.exportGameLog(), null, 2));
+        this.logs.push(`${C.GREEN} 📄 Game log written to ${path} ${C.RESET}`);
+    }
+
+    async auditTranscript(): Promise<AuditResult | null> {
+        const state = this.getState();
+        if (!state) return null;
+        this.logCall("PUBLIC", "auditTranscript", `Entries:${this.game.transcript.length}`);
+
+        const result = auditTranscript(this.game.transcript, state.transcriptHash);
+        if (result.ok) {
+            this.logs.push(`${C.GREEN} ✅ TRANSCRIPT OK: ${this.game.transcript.length} entries replay to the on-chain hash ${C.RESET}`);
+        } else {
+            const d = result.firstDivergence!;
+            this.logs.push(`${C.RED} ❌ TRANSCRIPT DIVERGES at #${d.index}: ${describeEntry(d.entry)} ${C.RESET}`);
+        }
+        return result;
+    }
+
+    // --- OPENINGS ---
+
+    private recordOpening(p: PlayerPrivateState, payload: ActionPayload, envelope: Uint8Array) {
+        const round = Number(this.getRound());
+        const phase = this.getPhase();
+        let current = this.game.openings.at(-1);
+        if (!current || current.round !== round || current.phase !== phase) {
+            current = { round, phase, openings: [] };
+            this.game.openings.push(current);
+        }
+        current.openings.push({
+            envelope: bytesToHex(envelope),
+            sender: p.id,
+            payload,
+            nonce: bytesToHex(envelope.subarray(0, 12))
+        });
+    }
+
+    // Opening moves mid-game would leak every role, so only once it is over.
+    // The bundle carries the master secret, so it also waits for the shares.
+    exportOpenings(): OpeningsBundle | null {
+        const secret = this.releasedSecret();
+        if (this.getPhase() !== Phase.Finished || !secret) return null;
+        return {
+            version: 1,
+            gameId: bytesToHex(this.gameId),
+            roles: this.game.players.map(p => p.role),
+            playerKeys: this.game.players.map(p => bytesToHex(p.publicKey)),
+            nodeKey: bytesToHex(this.game.encryptionKeys.privateKey),
+            masterSecret: bytesToHex(secret),
+            wolfTieRule: this.game.wolfTieRule,
+            dayTieRule: this.game.dayTieRule,
+            phases: this.game.openings
+        };
+    }
+
+    writeOpenings(path: string) {
+        const bundle = this.exportOpenings();
+        if (!bundle) return;
+        writeFileSync(path, JSON.stringify(bundle, null, 2));
+        this.logs.push(`${C.GREEN} 📄 Openings written to ${path} ${C.RESET}`);
+    }
+
+    async verifyOpenings(): Promise<OpeningsReport | null> {
+        const bundle = this.exportOpenings();
+        if (!bundle) return null;
+        this.logCall("PUBLIC", "verifyOpenings", `Phases:${bundle.phases.length}`);
+
+        const report = verifyOpenings(bundle, this.exportGameLog(), this.context.currentQueryContext.state);
+        if (report.passed) {
+            this.logs.push(`${C.GREEN} ✅ OPENINGS VERIFIED: ${report.phases.length} phase outcomes recomputed from the opened moves ${C.RESET}`);
+        } else if (report.bundleErrors.length > 0) {
+            this.logs.push(`${C.RED} ❌ OPENINGS REJECTED: ${report.bundleErrors.join('; ')} ${C.RESET}`);
+        } else if (!report.transcriptOk) {
+            this.logs.push(`${C.RED} ❌ OPENINGS UNCHECKED: the transcript does not match the ledger ${C.RESET}`);
+        } else {
+            for (const p of report.phases.filter(p => !p.valid)) {
+                this.logs.push(`${C.RED} ❌ ROUND ${p.round} ${PHASE_STR[p.phase]}: ${p.errors.join('; ')} ${C.RESET}`);
+            }
+        }
+        return report;
+    }
+
+    // --- SUMMARY ---
+
+    // Every role is in it, so like the openings only once the game is over
+    exportSummary(): GameSummary | null {
+        if (this.getPhase() !== Phase.Finished) return null;
+        return summarize(bytesToHex(this.gameId), this.getWinner(), Number(this.getRound()), this.game.players.map(p => p.role), this.game.timeline);
+    }
+
+    writeSummary(path: string) {
+        const summary = this.exportSummary();
+        if (!summary) return;
+        writeFileSync(path, JSON.stringify(summary, null, 2));
+        this.logs.push(`${C.GREEN} 📄 Summary written to ${path} ${C.RESET}`);
+    }
+
+    // --- ENCRYPTED MOVES ---
+
+    // Player side: seal the move to the node's key. The node drives every
+    // player in this terminal, so it stands in for the player's client here.
+    private sealAction(p: PlayerPrivateState, payload: ActionPayload): Uint8Array {
+        const playerKeys = deriveEncryptionKeyPair(p.secretKey!);
+        const key = sharedActionKey(playerKeys.privateKey, this.game.encryptionKeys.publicKey);
+        return encryptAction(key, payload, actionContext(this.gameId, this.getPhase(), this.getRound()));
+    }
+
+    // Player side: learn your own role from PlayerConfig.encryptedRole on the ledger
+    decryptRoleFor(playerId: number): number | null {
+        const p = this.game.players[playerId];
+        if (!p?.secretKey) return null;
+        const keys = deriveEncryptionKeyPair(p.secretKey);
+        return readOwnRole(this.context.currentQueryContext.state, this.gameId, playerId, keys.privateKey, this.game.encryptionKeys.publicKey);
+    }
+
+    // Node side: open every submitted envelope and attribute it to the living
+    // player whose key authenticates it. Moves that do not fit the sender's
+    // role (e.g. a villager claiming a kill) are dropped.
+    private pendingTargets(): Map<number, number> {
+        const phase = this.getPhase();
+        const aad = actionContext(this.gameId, phase, this.getRound());
+        const senders = this.game.players
+            .filter(p => p.alive)
+            .map(p => ({ p, key: sharedActionKey(this.game.encryptionKeys.privateKey, p.publicKey) }));
+
+        const targets = new Map<number, number>();
+        for (const envelope of this.game.submissions) {
+            for (const { p, key } of senders) {
+                const payload = decryptAction(key, envelope, aad);
+                if (!payload) continue;
+                if (payload.kind === expectedKind(p.role, phase === Phase.Night) && payload.target !== -1) {
+                    targets.set(p.id, payload.target);
+                }
+                break;
+            }
+        }
+        return targets;
+    }
+
+    // Every death, night kill or lynch, ends here once the resolve circuit has
+    // marked the seat dead: the role is opened, the contract drops the matching
+    // count and its isGameOver check may move the game to Finished.
+    private async settleDeath(playerId: number, round: bigint, phase: number) {
+        if (!await this.revealRole(playerId)) return;
+        const revealed = ledger(this.context.currentQueryContext.state).Werewolf_revealedRoles.lookup(this.gameId);
+        if (revealed.member(BigInt(playerId))) {
+            const role = Number(revealed.lookup(BigInt(playerId)));
+            this.logs.push(`${C.MAGENTA} 🪦 Player ${playerId} was a ${ROLE_STR[role]}. ${C.RESET}`);
+            this.noteEvent(round, phase, 'reveal', playerId, role);
+        }
+
+        const winner = this.getWinner();
+        if (winner) {
+            this.logs.push(`${C.BG_GREEN}${C.BLACK} 🏆 ${TEAM_STR[winner]} WIN${winner === 'village' ? "S" : ""}: ${winReason(winner)} ${C.RESET}`);
+            this.emit('event', { type: 'gameOver', gameId: bytesToHex(this.gameId), winner } satisfies NodeEvent);
+        }
+    }
+
+    async revealRole(playerId: number): Promise<boolean> {
+        const p = this.game.players[playerId];
+        this.logCall(`Player ${playerId}`, "revealPlayerRole", playerId);
+        try {
+            this.asPlayer(this.secretsOf(p), ctx => this.contract.circuits.revealPlayerRole(ctx, this.gameId, BigInt(playerId)));
+            return true;
+        } catch (e: any) {
+            this.logs.push(`${C.RED} ❌ revealPlayerRole rejected for Player ${playerId}: ${e?.message ?? e} ${C.RESET}`);
+            return false;
+        }
+    }
+
+    async verifyFairness(): Promise<{ id: number; role: number; valid: boolean }[]> {
+        const custody = this.game.custody;
+        const secret = this.releasedSecret();
+        if (!secret) {
+            const needed = custody?.kind === 'shares' ? `${custody.threshold} of ${custody.total} master secret shares recombined` : "the master secret";
+            this.logs.push(`${C.RED} ❌ forceEndGame needs ${needed} first ${C.RESET}`);
+            return [];
+        }
+        this.logCall("PUBLIC", "forceEndGame", `Secret:${toHex(secret)}`);
+        const results: { id: number; role: number; valid: boolean }[] = [];
+        
+        try {
+            // 1. Publish Secret
+            const rEnd = this.contract.circuits.forceEndGame(
+                this.context,
+                this.gameId,
+                secret
+            );
+            this.context = rEnd.context;
+            this.emitPhase();
+
+            // 2. Verify all players against their on-chain role commitments
+            for(const p of this.game.players) {
+                this.logCall("PUBLIC", "verifyFairness", `P:${p.id}`, `Role:${p.role}`);
+                const rVer = this.contract.circuits.verifyFairness(
+                    this.context,
+                    this.gameId,
+                    secret,
+                    BigInt(p.id),
+                    BigInt(p.role)
+                );
+                this.context = rVer.context;
+                results.push({ id: p.id, role: p.role, valid: rVer.result });
+            }
+            
+            const failed = results.filter(r => !r.valid);
+            if (failed.length === 0) {
+                this.logs.push(`${C.GREEN} ✅ FAIRNESS VERIFIED: ${results.length}/${results.length} players match their commitments ${C.RESET}`);
+            } else {
+                this.logs.push(`${C.RED} ❌ FAIRNESS FAILED for ${failed.map(r => `P${r.id}`).join(', ')} ${C.RESET}`);
+            }
+        } catch (e: any) {
+            this.logs.push(`${C.RED} ❌ VERIFICATION ERROR: ${e?.message ?? e} ${C.RESET}`);
+        }
+        return results;
+    }
+
+    // Public check: uses only what forceEndGame put on the ledger
+    async verifyShuffle(): Promise<ShuffleReport | null> {
+        this.logCall("PUBLIC", "verifyRoleShuffle", `ID:${toHex(this.gameId)}`);
+        try {
+            const report = verifyRoleShuffle(this.context.currentQueryContext.state, this.gameId, this.game.roleDeck);
+            if (report.passed) {
+                this.logs.push(`${C.GREEN} ✅ SHUFFLE VERIFIED: all ${report.players.length} roles recomputed from the published secret ${C.RESET}`);
+            } else {
+                const bad = report.players.filter(p => !p.valid).map(p => `P${p.id}`);
+                const why = report.secretMatchesCommitment ? `mismatch at ${bad.join(', ')}` : "secret does not match its commitment";
+                this.logs.push(`${C.RED} ❌ SHUFFLE INVALID: ${why} ${C.RESET}`);
+            }
+            return report;
+        } catch (e: any) {
+            this.logs.push(`${C.RED} ❌ SHUFFLE CHECK ERROR: ${e?.message ?? e} ${C.RESET}`);
+            return null;
+        }
+    }
+
+    // --- PERSISTENCE ---
+
+    exportSnapshot(): NodeSnapshot {
+        const selected = this.game;
+        try {
+            const games = [...this.sessions.values()].map((game): SessionRecord => {
+                this.game = game;
+                const state = this.getState();
+                return {
+                    gameId: bytesToHex(game.gameId),
+                    masterSecret: game.secretReleased && game.masterSecret ? bytesToHex(game.masterSecret) : null,
+                    tieKey: bytesToHex(game.tieKey),
+                    roleDeck: game.roleDeck,
+                    wolfTieRule: game.wolfTieRule,
+                    dayTieRule: game.dayTieRule,
+                    players: game.players.map(p => ({
+                        ...p,
+                        secretKey: p.secretKey && bytesToHex(p.secretKey),
+                        identityLeaf: bytesToHex(p.identityLeaf),
+                        roleSalt: bytesToHex(p.roleSalt),
+                        roleCommitment: bytesToHex(p.roleCommitment),
+                        publicKey: bytesToHex(p.publicKey)
+                    })),
+                    joined: game.joined.map(j => ({
+                        secretKey: j.secretKey && bytesToHex(j.secretKey),
+                        publicKey: bytesToHex(j.publicKey),
+                        identityLeaf: bytesToHex(j.identityLeaf)
+                    })),
+                    seerFindings: [...game.seerFindings],
+                    encryptionKeys: {
+                        privateKey: bytesToHex(game.encryptionKeys.privateKey),
+                        publicKey: bytesToHex(game.encryptionKeys.publicKey)
+                    },
+                    submissions: game.submissions.map(bytesToHex),
+                    transcript: game.transcript,
+                    openings: game.openings,
+                    timeline: game.timeline,
+                    custody: game.custody,
+                    secretReleased: game.secretReleased,
+                    checkpoint: state && {
+                        phase: Number(state.phase),
+                        round: Number(state.round),
+                        transcriptHash: bytesToHex(state.transcriptHash)
+                    }
+                };
+            });
+            return {
+                version: 1,
+                adminKey: bytesToHex(this.adminKey),
+                custody: this.custody && custodyPolicy(this.custody),
+                identityRoot: bytesToHex(this.identityRoot),
+                identitiesIssued: this.identitiesIssued,
+                selected: bytesToHex(selected.gameId),
+                ledger: this.ledgerSnapshot(),
+                games
+            };
+        } finally {
+            this.game = selected;
+        }
+    }
+
+    // Loads a snapshot into this (fresh) node and checks every game against
+    // getGameState on the restored ledger. Returns what does not match; the
+    // node should not be played on unless that is empty.
+    restoreSnapshot(snapshot: NodeSnapshot): string[] {
+        if (snapshot.version !== 1) return [`Unsupported snapshot version ${snapshot.version}`];
+        this.context = { ...this.context, currentQueryContext: new QueryContext(decodeLedger(snapshot.ledger), sampleContractAddress()) };
+        this.useAdminKey(hexToBytes(snapshot.adminKey));
+        // Shares custody holds nothing secret; passphrase custody waits for setCustody
+        this.custody = snapshot.custody?.kind === 'shares' ? snapshot.custody : null;
+        this.custodyToRenew = snapshot.custody?.kind === 'passphrase' ? snapshot.custody : null;
+        if (this.custodyToRenew) this.logs.push(`${C.YELLOW} 🔐 Enter the custody passphrase again before opening another game ${C.RESET}`);
+        this.identityRoot = hexToBytes(snapshot.identityRoot);
+        this.identitiesIssued = snapshot.identitiesIssued;
+        this.sessions.clear();
+
+        const problems: string[] = [];
+        for (const record of snapshot.games) {
+            const game: GameSession = {
+                gameId: hexToBytes(record.gameId),
+                masterSecret: record.masterSecret ? hexToBytes(record.masterSecret) : null,
+                tieKey: hexToBytes(record.tieKey),
+                roleDeck: record.roleDeck,
+                wolfTieRule: record.wolfTieRule,
+                dayTieRule: record.dayTieRule,
+                players: record.players.map(p => ({
+                    ...p,
+                    secretKey: p.secretKey ? hexToBytes(p.secretKey) : null,
+                    identityLeaf: hexToBytes(p.identityLeaf),
+                    roleSalt: hexToBytes(p.roleSalt),
+                    roleCommitment: hexToBytes(p.roleCommitment),
+                    publicKey: hexToBytes(p.publicKey)
+                })),
+                joined: record.joined.map(j => ({
+                    secretKey: j.secretKey ? hexToBytes(j.secretKey) : null,
+                    publicKey: hexToBytes(j.publicKey),
+                    identityLeaf: hexToBytes(j.identityLeaf)
+                })),
+                seerFindings: new Map(record.seerFindings),
+                encryptionKeys: {
+                    privateKey: hexToBytes(record.encryptionKeys.privateKey),
+                    publicKey: hexToBytes(record.encryptionKeys.publicKey)
+                },
+                submissions: record.submissions.map(hexToBytes),
+                transcript: record.transcript,
+                openings: record.openings,
+                timeline: record.timeline,
+                custody: record.custody,
+                pendingShares: [],
+                secretReleased: record.secretReleased
+            };
+            this.sessions.set(record.gameId, game);
+            this.game = game;
+            problems.push(...this.checkRestored(record).map(p => `Game ${record.gameId.slice(0, 6)}: ${p}`));
+        }
+
+        if (!this.selectGame(snapshot.selected)) this.game = newSession();
+        this.logs.push(problems.length === 0
+            ? `${C.GREEN} 💾 Resumed ${snapshot.games.length} game(s); every one matches the ledger ${C.RESET}`
+            : `${C.RED} ❌ Snapshot does not match the ledger (${problems.length} problem(s)) ${C.RESET}`);
+        return problems;
+    }
+
+    // The restored secrets must be the ones this ledger committed to
+    private checkRestored(record: SessionRecord): string[] {
+        const state = this.getState();
+        if (!state) return ["Not on the restored ledger"];
+
+        const problems: string[] = [];
+        const cp = record.checkpoint;
+        if (cp && (Number(state.phase) !== cp.phase || Number(state.round) !== cp.round || bytesToHex(state.transcriptHash) !== cp.transcriptHash)) {
+            problems.push(`Ledger is at ${PHASE_STR[Number(state.phase)]} round ${state.round}, the snapshot at ${PHASE_STR[cp.phase]} round ${cp.round}`);
+        }
+        // A shares-mode secret is not saved; recombineShares checks it when it comes back
+        const secret = this.game.masterSecret;
+        if (secret && !bytesEqual(pureCircuits.testComputeHash(secret), state.masterSecretCommitment)) {
+            problems.push("Master secret does not open the on-chain commitment");
+        }
+        if (secret && !bytesEqual(deriveTieKey(secret), this.game.tieKey)) problems.push("Tie key is not the master secret's");
+        const last = this.game.transcript.at(-1);
+        if (last && last.transcriptAfter !== bytesToHex(state.transcriptHash)) problems.push("Transcript does not end at the ledger's hash");
+
+        const l = ledger(this.context.currentQueryContext.state);
+        const alive = l.Werewolf_playerAlive.member(this.gameId) ? l.Werewolf_playerAlive.lookup(this.gameId) : null;
+        for (const p of this.game.players) {
+            if (alive?.member(BigInt(p.id)) && alive.lookup(BigInt(p.id)) !== p.alive) {
+                problems.push(`Player ${p.id} is ${p.alive ? "dead" : "alive"} on the ledger`);
+            }
+        }
+        return problems;
+    }
+
+    // --- CONTRACT STATE ---
+    getState() {
+        try {
+            const r = this.contract.circuits.getGameState(this.context, this.gameId);
+            this.context = r.context;
+            return r.result;
+        } catch { return null; }
+    }
+
+    getWinner(): Team | null {
+        const s = this.getState();
+        return s ? winnerOf(s) : null;
+    }
+
+    getPhase(): number { const s = this.getState(); return s ? Number(s.phase) : Phase.Lobby; }
+    getRound(): bigint { const s = this.getState(); return s ? s.round : 0n; }
+}
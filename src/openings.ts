@@ -0,0 +1,252 @@
+/**
+ * Phase Openings
+ *
+ * Once the game is over the node publishes, for every envelope it accepted,
+ * the plaintext and the nonce it was sealed with, together with its retired
+ * per-game encryption key. With the exported game log and the ledger anyone
+ * can then:
+ * - check the bundle's master secret, roles and keys against the commitment,
+ *   the roleCommitments and the PlayerConfig keys on the ledger
+ * - replay the log to the ledger's transcript hash
+ * - re-seal each opening and find the exact bytes in the transcript
+ * - attribute it by re-deriving the sender's key from their published key
+ * - rerun rules.ts over the opened moves and compare every recorded outcome
+ *
+ * Usage: npm run verify-openings -- <game-log.json> <openings.json> <ledger.json>
+ *        (ledger.json as served by GET /ledger)
+ */
+
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { ledger, pureCircuits, type Ledger } from '../ww-dist/contract/index.js';
+import { auditGameLog, type GameLog, type TranscriptEntry } from './audit.ts';
+import { bytesEqual, hexToBytes } from './bytes.ts';
+import { decodeLedger } from './ledgerSnapshot.ts';
+import type { LedgerState } from './verifier.ts';
+import { actionContext, encryptAction, sharedActionKey, type ActionPayload } from './encryption.ts';
+import { dayTieSeed, deriveTieKey, wolfTieSeed } from './roles.ts';
+import { expectedKind, resolveDay, resolveNight, type DayTieRule, type Seat, type WolfTieRule } from './rules.ts';
+
+// ============================================
+// BUNDLE FORMAT
+// ============================================
+
+export interface Opening {
+    envelope: string;       // Bytes<32> as submitted on-chain (hex)
+    sender: number;
+    payload: ActionPayload;
+    nonce: string;          // Sealing randomness (hex)
+}
+
+export interface PhaseOpenings {
+    round: number;
+    phase: number;
+    openings: Opening[];
+}
+
+export interface OpeningsBundle {
+    version: 1;
+    gameId: string;
+    roles: number[];        // Each must open its seat's roleCommitment
+    playerKeys: string[];   // PlayerConfig.publicKey, in id order
+    nodeKey: string;        // The node's per-game X25519 private key, retired at game end
+    masterSecret: string;   // Opens masterSecretCommitment; seeds the salts and the 'random' tie rules
+    wolfTieRule: WolfTieRule;
+    dayTieRule?: DayTieRule; // 'none' when absent
+    phases: PhaseOpenings[];
+}
+
+export interface Resolution {
+    idx: number;            // 0 when nobody died, as passed to the contract
+    hasDeath: boolean;
+}
+
+export interface PhaseCheck {
+    round: number;
+    phase: number;
+    claimed: Resolution | null;  // null when the game ended before this phase resolved
+    recomputed: Resolution;
+    errors: string[];
+    valid: boolean;
+}
+
+export interface OpeningsReport {
+    bundleErrors: string[];  // Where the bundle's secret, roles or keys disagree with the ledger
+    transcriptOk: boolean;
+    phases: PhaseCheck[];
+    passed: boolean;
+}
+
+// ============================================
+// VERIFIER
+// ============================================
+
+const NIGHT = 1;
+
+interface TranscriptPhase {
+    round: number;
+    phase: number;
+    moves: string[];
+    outcome: Resolution | null;
+}
+
+// Moves are followed by the outcome that closes their phase
+function splitPhases(entries: TranscriptEntry[]): TranscriptPhase[] {
+    const phases: TranscriptPhase[] = [];
+    let current: TranscriptPhase | null = null;
+    for (const e of entries) {
+        if (!current) current = { round: e.round, phase: e.phase, moves: [], outcome: null };
+        if (e.kind === 'move') {
+            current.moves.push(e.payload);
+        } else {
+            current.outcome = { idx: e.idx, hasDeath: e.hasDeath };
+            phases.push(current);
+            current = null;
+        }
+    }
+    if (current) phases.push(current);
+    return phases;
+}
+
+function toResolution(victim: number): Resolution {
+    return victim >= 0 ? { idx: victim, hasDeath: true } : { idx: 0, hasDeath: false };
+}
+
+// The bundle is the node's word until its secret, roles and keys match what
+// the ledger committed to; otherwise two seats could share a key, or a role
+// could be misstated, and the outcomes below would still recompute
+function checkBundle(bundle: OpeningsBundle, l: Ledger, gameId: Uint8Array): string[] {
+    const game = l.Werewolf_games.lookup(gameId);
+    const masterSecret = hexToBytes(bundle.masterSecret);
+    const errors: string[] = [];
+    if (!bytesEqual(pureCircuits.testComputeHash(masterSecret), game.masterSecretCommitment)) {
+        errors.push("master secret does not open the ledger's commitment");
+    }
+
+    const count = Number(game.playerCount);
+    if (bundle.roles.length !== count || bundle.playerKeys.length !== count) {
+        errors.push(`bundle lists ${bundle.roles.length} roles and ${bundle.playerKeys.length} keys for ${count} seats`);
+    }
+    if (!l.Werewolf_playerConfigs.member(gameId)) return [...errors, "game was never started on the ledger"];
+    const configs = l.Werewolf_playerConfigs.lookup(gameId);
+    for (let id = 0; id < count; id++) {
+        const config = configs.lookup(BigInt(id));
+        const role = bundle.roles[id];
+        const salt = pureCircuits.testComputeSalt(masterSecret, BigInt(id));
+        if (role === undefined || !bytesEqual(pureCircuits.testComputeCommitment(BigInt(role), salt), config.roleCommitment)) {
+            errors.push(`role of Player ${id} does not open its roleCommitment`);
+        }
+        const key = bundle.playerKeys[id];
+        if (key === undefined || !bytesEqual(hexToBytes(key), config.publicKey.bytes)) {
+            errors.push(`key of Player ${id} is not its PlayerConfig.publicKey`);
+        }
+    }
+    return errors;
+}
+
+export function verifyOpenings(bundle: OpeningsBundle, log: GameLog, state: LedgerState): OpeningsReport {
+    const gameId = hexToBytes(bundle.gameId);
+    const nodeKey = hexToBytes(bundle.nodeKey);
+    const tieKey = deriveTieKey(hexToBytes(bundle.masterSecret));
+    const seats: Seat[] = bundle.roles.map((role, id) => ({ id, role, alive: true }));
+
+    const l = ledger(state);
+    const onLedger = l.Werewolf_games.member(gameId);
+    const bundleErrors = onLedger ? checkBundle(bundle, l, gameId) : ["game is not on the ledger"];
+    const transcriptOk = onLedger && bundle.gameId === log.gameId && auditGameLog(log, l.Werewolf_games.lookup(gameId).transcriptHash).ok;
+
+    const phases = splitPhases(log.entries).map(tp => {
+        const errors: string[] = [];
+        const night = tp.phase === NIGHT;
+        const aad = actionContext(gameId, tp.phase, BigInt(tp.round));
+        const openings = bundle.phases.find(p => p.round === tp.round && p.phase === tp.phase)?.openings ?? [];
+
+        // Same attribution and role filter the node applies in pendingTargets
+        const targets = new Map<number, number>();
+        const opened = new Set<string>();
+        for (const o of openings) {
+            const seat = seats[o.sender];
+            if (!tp.moves.includes(o.envelope)) {
+                errors.push(`opening for ${o.envelope.slice(0, 12)}… is not in the transcript`);
+                continue;
+            }
+            if (opened.has(o.envelope)) {
+                errors.push(`envelope ${o.envelope.slice(0, 12)}… opened twice`);
+                continue;
+            }
+            opened.add(o.envelope);
+            if (!seat?.alive) {
+                errors.push(`Player ${o.sender} could not have acted`);
+                continue;
+            }
+            const key = sharedActionKey(nodeKey, hexToBytes(bundle.playerKeys[o.sender]));
+            if (!bytesEqual(encryptAction(key, o.payload, aad, hexToBytes(o.nonce)), hexToBytes(o.envelope))) {
+                errors.push(`opening of Player ${o.sender} does not re-seal to its envelope`);
+                continue;
+            }
+            if (o.payload.kind === expectedKind(seat.role, night) && o.payload.target !== -1) {
+                targets.set(o.sender, o.payload.target);
+            }
+        }
+        const unopened = tp.moves.filter(m => !opened.has(m)).length;
+        if (unopened > 0) errors.push(`${unopened} envelope(s) left unopened`);
+
+        const recomputed = toResolution(night
+            ? resolveNight(seats, targets, { wolfTieRule: bundle.wolfTieRule, tieSeed: wolfTieSeed(tieKey, tp.round) }).victim
+            : resolveDay(seats, targets, { dayTieRule: bundle.dayTieRule ?? 'none', tieSeed: dayTieSeed(tieKey, tp.round) }).eliminated);
+
+        const claimed = tp.outcome;
+        if (claimed && (claimed.hasDeath !== recomputed.hasDeath || (claimed.hasDeath && claimed.idx !== recomputed.idx))) {
+            const show = (r: Resolution) => r.hasDeath ? `Player ${r.idx}` : "nobody";
+            errors.push(`resolution removed ${show(claimed)} but the opened moves remove ${show(recomputed)}`);
+        }
+
+        // Follow the ledger, so one faked phase does not cascade into the next
+        if (claimed?.hasDeath && seats[claimed.idx]) seats[claimed.idx].alive = false;
+
+        return { round: tp.round, phase: tp.phase, claimed, recomputed, errors, valid: errors.length === 0 };
+    });
+
+    return { bundleErrors, transcriptOk, phases, passed: bundleErrors.length === 0 && transcriptOk && phases.every(p => p.valid) };
+}
+
+// ============================================
+// COMMAND
+// ============================================
+
+function main(argv: string[]) {
+    const [logFile, bundleFile, ledgerFile] = argv;
+    if (!logFile || !bundleFile || !ledgerFile) {
+        console.error("Usage: npm run verify-openings -- <game-log.json> <openings.json> <ledger.json>");
+        process.exit(2);
+    }
+
+    const log: GameLog = JSON.parse(readFileSync(logFile, 'utf8'));
+    const bundle: OpeningsBundle = JSON.parse(readFileSync(bundleFile, 'utf8'));
+    const state = decodeLedger(JSON.parse(readFileSync(ledgerFile, 'utf8')));
+    const report = verifyOpenings(bundle, log, state);
+
+    console.log(`Game:       ${bundle.gameId}`);
+    if (report.bundleErrors.length === 0) {
+        console.log("Bundle:     ✅ secret, roles and keys match the ledger");
+    } else {
+        console.log("Bundle:     ❌ does not match the ledger");
+        report.bundleErrors.forEach(e => console.log(`   ${e}`));
+    }
+    console.log(`Transcript: ${report.transcriptOk ? "✅ matches the ledger" : "❌ does not match the ledger (run npm run audit)"}`);
+    for (const p of report.phases) {
+        const label = `Round ${p.round} ${p.phase === NIGHT ? "night" : "day"}`;
+        if (p.valid) {
+            console.log(`✅ ${label}`);
+        } else {
+            console.log(`❌ ${label}`);
+            p.errors.forEach(e => console.log(`   ${e}`));
+        }
+    }
+    process.exit(report.passed ? 0 : 1);
+}
+
+if (process.argv[1] && resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+    main(process.argv.slice(2));
+}
@@ -0,0 +1,86 @@
+/**
+ * Node Persistence
+ *
+ * A crash used to take the master secrets, the seats' secrets and salts and
+ * the contract state with it, leaving games that could never be resolved or
+ * verified. The node's NodeSnapshot is sealed to disk under a passphrase:
+ *
+ *   key  = scrypt(passphrase, salt)
+ *   file = { version, kdf: { salt, N, r, p }, nonce, ciphertext, tag }   (hex, AES-256-GCM)
+ *
+ * Each save goes to a temp file renamed over the last one, so a crash while
+ * writing leaves the previous snapshot readable. `resumeNode` only hands
+ * back a node whose games all match the restored ledger.
+ */
+
+import { Buffer } from 'node:buffer';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'node:crypto';
+import { readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { bytesToHex, hexToBytes } from './bytes.ts';
+import { TrustedNode, type NodeSnapshot } from './node.ts';
+
+/** Where the front ends read the passphrase when nobody is there to type it */
+export const PASSPHRASE_ENV = 'WW_PASSPHRASE';
+
+const KDF = { N: 1 << 15, r: 8, p: 1 };
+const KEY_BYTES = 32;
+const NONCE_BYTES = 12;
+const AAD = Buffer.from("werewolf:node-snapshot:v1");
+
+export interface SealedSnapshot {
+    version: 1;
+    kdf: { salt: string; N: number; r: number; p: number };
+    nonce: string;
+    ciphertext: string;
+    tag: string;
+}
+
+// Always the fixed KDF cost: the file's own copy is only checked, so a
+// tampered file cannot pick how much memory or time startup spends
+function snapshotKey(passphrase: string, salt: Uint8Array): Buffer {
+    if (!passphrase) throw new Error("A passphrase is required");
+    return scryptSync(passphrase, salt, KEY_BYTES, { ...KDF, maxmem: 256 * KDF.N * KDF.r });
+}
+
+export function sealSnapshot(snapshot: NodeSnapshot, passphrase: string): SealedSnapshot {
+    const salt = randomBytes(16);
+    const nonce = randomBytes(NONCE_BYTES);
+    const cipher = createCipheriv('aes-256-gcm', snapshotKey(passphrase, salt), nonce).setAAD(AAD);
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(snapshot), 'utf8'), cipher.final()]);
+    return {
+        version: 1,
+        kdf: { salt: bytesToHex(salt), ...KDF },
+        nonce: bytesToHex(nonce),
+        ciphertext: bytesToHex(ciphertext),
+        tag: bytesToHex(cipher.getAuthTag())
+    };
+}
+
+export function openSnapshot(sealed: SealedSnapshot, passphrase: string): NodeSnapshot {
+    if (sealed.version !== 1) throw new Error(`Unsupported snapshot file version ${sealed.version}`);
+    const { N, r, p } = sealed.kdf ?? {};
+    if (N !== KDF.N || r !== KDF.r || p !== KDF.p) throw new Error(`Unsupported snapshot KDF parameters N=${N} r=${r} p=${p}`);
+    const key = snapshotKey(passphrase, hexToBytes(sealed.kdf.salt));
+    const decipher = createDecipheriv('aes-256-gcm', key, hexToBytes(sealed.nonce)).setAAD(AAD);
+    decipher.setAuthTag(hexToBytes(sealed.tag));
+    try {
+        const plain = Buffer.concat([decipher.update(hexToBytes(sealed.ciphertext)), decipher.final()]);
+        return JSON.parse(plain.toString('utf8'));
+    } catch {
+        throw new Error("Wrong passphrase, or the snapshot was altered");
+    }
+}
+
+export function saveNode(node: TrustedNode, path: string, passphrase: string) {
+    const temp = `${path}.tmp`;
+    writeFileSync(temp, JSON.stringify(sealSnapshot(node.exportSnapshot(), passphrase)), { mode: 0o600 });
+    renameSync(temp, path);
+}
+
+export function resumeNode(path: string, passphrase: string): TrustedNode {
+    const snapshot = openSnapshot(JSON.parse(readFileSync(path, 'utf8')), passphrase);
+    const node = new TrustedNode();
+    const problems = node.restoreSnapshot(snapshot);
+    if (problems.length > 0) throw new Error(`${path} does not match its ledger:\n  ${problems.join('\n  ')}`);
+    return node;
+}
@@ -0,0 +1,305 @@
+/**
+ * Player Terminal
+ *
+ * Plays one seat against a node started with `npm run serve`. The identity
+ * secret and the role salt of each game it was dealt into live in a local key
+ * file and never reach the node:
+ * this client runs joinGame, nightAction and voteDay itself against a ledger
+ * snapshot, builds its own alive-tree proof and reads its role from the
+ * ledger with its own key. It shows only what this player may see: their
+ * role, who is alive and the roles revealed on the ledger.
+ *
+ * Usage: npm run player -- <node-url> [key-file] [game-id]
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import * as readline from 'node:readline';
+import { fileURLToPath } from 'node:url';
+import {
+    CostModel,
+    QueryContext,
+    emptyZswapLocalState,
+    sampleContractAddress,
+    type ChargedState,
+    type CircuitContext
+} from '@midnight-ntwrk/compact-runtime';
+
+import { Contract, ledger, pureCircuits } from '../ww-dist/contract/index.js';
+import { bytesEqual, bytesToHex, hexToBytes } from './bytes.ts';
+import { PlayerClient } from './client.ts';
+import { actionContext, deriveEncryptionKeyPair, encryptAction, sharedActionKey, type EncryptionKeyPair } from './encryption.ts';
+import { randomBytes } from './entropy.ts';
+import { decodeLedger, encodeLedger, type LedgerSnapshot } from './ledgerSnapshot.ts';
+import { MerkleTree, identityLeaf } from './merkle.ts';
+import { C, PHASE_STR, Phase, ROLE_STR, TEAM_STR, toHex, winnerOf, type Team } from './node.ts';
+import { readOwnRole } from './roleDelivery.ts';
+import { expectedKind } from './rules.ts';
+import { witnesses, type PrivateState } from './witnesses.ts';
+
+// Same placeholder coin key the node's context uses; no player circuit reads it
+const COIN_PUBLIC_KEY = '0'.repeat(64);
+
+export interface KeyFile {
+    secretKey: string;                   // hex
+    roleSalts: Record<string, string>;   // hex gameId -> hex salt, once that game's roles are dealt
+}
+
+export interface SeatView {
+    id: number;
+    alive: boolean;
+    revealedRole: number | null;
+}
+
+/** Everything this player is entitled to know */
+export interface PlayerView {
+    gameId: Uint8Array;
+    phase: number;
+    round: number;
+    seat: number | null;
+    role: number | null;
+    alive: boolean;
+    players: SeatView[];
+    winner: Team | null;
+}
+
+// ============================================
+// LOCAL PLAYER
+// ============================================
+
+export class LocalPlayer {
+    readonly client: PlayerClient;
+    private contract = new Contract(witnesses);
+    private keys: EncryptionKeyPair;
+    private leaf: Uint8Array;
+
+    // Every game deals a fresh salt, so one is kept per game
+    readonly roleSalts: Map<string, Uint8Array>;
+
+    constructor(baseUrl: string, readonly secretKey: Uint8Array, roleSalts: Record<string, string> = {}, gameId: string | null = null) {
+        this.client = new PlayerClient(baseUrl, secretKey, gameId);
+        this.keys = deriveEncryptionKeyPair(secretKey);
+        this.leaf = identityLeaf(secretKey);
+        this.roleSalts = new Map(Object.entries(roleSalts).map(([id, salt]) => [id.toLowerCase(), hexToBytes(salt)]));
+    }
+
+    roleSaltFor(gameId: Uint8Array): Uint8Array | null {
+        return this.roleSalts.get(bytesToHex(gameId)) ?? null;
+    }
+
+    private async fetchLedger(): Promise<{ snapshot: LedgerSnapshot; state: ChargedState; gameId: Uint8Array; nodeKey: Uint8Array }> {
+        const pub = await this.client.state();
+        const snapshot = await this.client.ledger();
+        return { snapshot, state: decodeLedger(snapshot), gameId: hexToBytes(pub.gameId), nodeKey: hexToBytes(pub.nodeKey) };
+    }
+
+    // Seats in order with their registered leaves; the node builds the alive
+    // tree from the same list, so the roots agree
+    private seats(state: ChargedState, gameId: Uint8Array): (SeatView & { leaf: Uint8Array })[] {
+        const l = ledger(state);
+        if (!l.Werewolf_registrations.member(gameId)) return [];
+        const alive = l.Werewolf_playerAlive.member(gameId) ? l.Werewolf_playerAlive.lookup(gameId) : null;
+        const revealed = l.Werewolf_revealedRoles.member(gameId) ? l.Werewolf_revealedRoles.lookup(gameId) : null;
+        return [...l.Werewolf_registrations.lookup(gameId)]
+            .map(([id, reg]) => ({
+                id: Number(id),
+                alive: alive?.member(id) ? alive.lookup(id) : true,
+                revealedRole: revealed?.member(id) ? Number(revealed.lookup(id)) : null,
+                leaf: reg.identityLeaf
+            }))
+            .sort((a, b) => a.id - b.id);
+    }
+
+    async view(): Promise<PlayerView> {
+        const { state, gameId, nodeKey } = await this.fetchLedger();
+        const l = ledger(state);
+        const game = l.Werewolf_games.member(gameId) ? l.Werewolf_games.lookup(gameId) : null;
+        const seats = this.seats(state, gameId);
+        const mine = seats.find(s => bytesEqual(s.leaf, this.leaf)) ?? null;
+        if (mine) this.client.seat = mine.id;
+
+        return {
+            gameId,
+            phase: game ? Number(game.phase) : Phase.Lobby,
+            round: game ? Number(game.round) : 0,
+            seat: mine?.id ?? null,
+            role: mine ? readOwnRole(state, gameId, mine.id, this.keys.privateKey, nodeKey) : null,
+            alive: mine?.alive ?? false,
+            players: seats.map(({ id, alive, revealedRole }) => ({ id, alive, revealedRole })),
+            winner: game ? winnerOf(game) : null
+        };
+    }
+
+    // Runs a circuit locally with this player's secrets answering its witnesses
+    private prove<T>(
+        state: ChargedState,
+        gameId: Uint8Array,
+        role: number,
+        call: (context: CircuitContext<PrivateState>) => { context: CircuitContext<PrivateState>; result: T }
+    ): { result: T; next: LedgerSnapshot } {
+        const context: CircuitContext<PrivateState> = {
+            currentPrivateState: { secretKey: this.secretKey, role, roleSalt: this.roleSaltFor(gameId) ?? new Uint8Array(32) },
+            currentZswapLocalState: emptyZswapLocalState(COIN_PUBLIC_KEY),
+            currentQueryContext: new QueryContext(state, sampleContractAddress()),
+            costModel: CostModel.initialCostModel()
+        };
+        const r = call(context);
+        return { result: r.result, next: encodeLedger(r.context.currentQueryContext.state) };
+    }
+
+    async join(): Promise<number> {
+        const { snapshot, state, gameId } = await this.fetchLedger();
+        const { next } = this.prove(state, gameId, 0, ctx => this.contract.circuits.joinGame(ctx, gameId, { bytes: this.keys.publicKey }));
+        return this.client.submitJoin(snapshot.digest, next);
+    }
+
+    /** Takes the salt the node dealt, but only if it opens this seat's role commitment */
+    async receiveRoleSalt(): Promise<Uint8Array> {
+        const view = await this.view();
+        if (view.seat === null || view.role === null) throw new Error("Roles have not been dealt yet");
+        const salt = hexToBytes((await this.client.me()).roleSalt);
+
+        const { state } = await this.fetchLedger();
+        const config = ledger(state).Werewolf_playerConfigs.lookup(view.gameId).lookup(BigInt(view.seat));
+        if (!bytesEqual(pureCircuits.testComputeCommitment(BigInt(view.role), salt), config.roleCommitment)) {
+            throw new Error("Salt from the node does not open your role commitment");
+        }
+        this.roleSalts.set(bytesToHex(view.gameId), salt);
+        return salt;
+    }
+
+    async act(target: number): Promise<void> {
+        const { snapshot, state, gameId, nodeKey } = await this.fetchLedger();
+        const game = ledger(state).Werewolf_games.lookup(gameId);
+        const phase = Number(game.phase);
+        if (phase !== Phase.Night && phase !== Phase.Day) throw new Error("No moves in this phase");
+
+        const seats = this.seats(state, gameId);
+        const me = seats.find(s => bytesEqual(s.leaf, this.leaf));
+        if (!me?.alive) throw new Error("You are not a living player in this game");
+        const role = readOwnRole(state, gameId, me.id, this.keys.privateKey, nodeKey);
+        if (role === null) throw new Error("Could not open your role");
+        this.client.seat = me.id;
+
+        const tree = new MerkleTree(seats.filter(s => s.alive).map(s => s.leaf));
+        const path = tree.getProof(tree.indexOf(this.leaf));
+
+        const payload = { kind: expectedKind(role, phase === Phase.Night), target };
+        const key = sharedActionKey(this.keys.privateKey, nodeKey);
+        const envelope = encryptAction(key, payload, actionContext(gameId, phase, game.round));
+
+        const { next } = this.prove(state, gameId, role, ctx => phase === Phase.Night
+            ? this.contract.circuits.nightAction(ctx, gameId, envelope, path)
+            : this.contract.circuits.voteDay(ctx, gameId, envelope, path));
+        await this.client.submitMove(envelope, path, snapshot.digest, next);
+    }
+}
+
+// ============================================
+// TERMINAL
+// ============================================
+
+function loadKeyFile(path: string): KeyFile {
+    if (existsSync(path)) {
+        // Older files kept a single roleSalt with no game attached; it cannot be reused
+        const { secretKey, roleSalts } = JSON.parse(readFileSync(path, 'utf8'));
+        return { secretKey, roleSalts: roleSalts ?? {} };
+    }
+    const keys: KeyFile = { secretKey: bytesToHex(randomBytes(32)), roleSalts: {} };
+    saveKeyFile(path, keys);
+    return keys;
+}
+
+function saveKeyFile(path: string, keys: KeyFile) {
+    writeFileSync(path, JSON.stringify(keys, null, 2), { mode: 0o600 });
+}
+
+function render(view: PlayerView, message: string) {
+    console.clear();
+    console.log(`${C.BRIGHT}${C.BLUE}============================================================${C.RESET}`);
+    console.log(`   🐺  ${C.BRIGHT}WEREWOLF${C.RESET}  |  Player Terminal`);
+    console.log(`${C.BRIGHT}${C.BLUE}============================================================${C.RESET}`);
+    console.log(`\n   Phase: ${C.BRIGHT}${PHASE_STR[view.phase]}${C.RESET}  |  Round: ${C.BRIGHT}${view.round}${C.RESET}`);
+    console.log(`   Game ID: ${C.DIM}${toHex(view.gameId)}${C.RESET}\n`);
+    if (view.winner) console.log(`   ${C.BG_GREEN}${C.BLACK} 🏆 WINNER: ${TEAM_STR[view.winner]} ${C.RESET}\n`);
+
+    if (view.seat === null) {
+        console.log(`   ${C.DIM}(You have not joined this game)${C.RESET}\n`);
+    } else {
+        const role = view.role === null ? `${C.DIM}not dealt yet${C.RESET}` : ROLE_STR[view.role];
+        const status = view.alive ? `${C.GREEN}Alive${C.RESET}` : `${C.RED}DEAD 💀${C.RESET}`;
+        console.log(`   ${C.BRIGHT}YOU:${C.RESET} Player ${view.seat}  |  ${role}  |  ${status}\n`);
+    }
+
+    console.log(`   ${C.BRIGHT}PLAYERS:${C.RESET}`);
+    console.log(`   ----------------------------------------`);
+    console.log(`   | ID | Status   | ${"Revealed Role".padEnd(14)} |`);
+    console.log(`   ----------------------------------------`);
+    if (view.players.length === 0) console.log(`   ${C.DIM}(Waiting for players...)${C.RESET}`);
+    for (const p of view.players) {
+        const status = p.alive ? `${C.GREEN}Alive${C.RESET}   ` : `${C.RED}DEAD 💀${C.RESET}  `;
+        const revealed = p.revealedRole === null ? `${C.DIM}${"?".padEnd(14)}${C.RESET}` : ROLE_STR[p.revealedRole].padEnd(14);
+        const you = p.id === view.seat ? ` ${C.CYAN}(you)${C.RESET}` : "";
+        console.log(`   | ${p.id.toString().padEnd(2)} | ${status} | ${revealed} |${you}`);
+    }
+    console.log(`   ----------------------------------------\n`);
+    if (message) console.log(`   ${message}\n`);
+}
+
+async function main(argv: string[]) {
+    const [url, keyPath = 'player-key.json', gameId = null] = argv;
+    if (!url) {
+        console.log("Usage: npm run player -- <node-url> [key-file] [game-id]");
+        process.exit(1);
+    }
+
+    const keys = loadKeyFile(keyPath);
+    const player = new LocalPlayer(url, hexToBytes(keys.secretKey), keys.roleSalts, gameId);
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    const ask = (q: string) => new Promise<string>(done => rl.question(q, done));
+
+    let message = "";
+    for (;;) {
+        const view = await player.view();
+        if (view.role !== null && !player.roleSaltFor(view.gameId)) {
+            try {
+                keys.roleSalts[bytesToHex(view.gameId)] = bytesToHex(await player.receiveRoleSalt());
+                saveKeyFile(keyPath, keys);
+            } catch (e: any) {
+                message = `${C.RED}❌ ${e?.message ?? e}${C.RESET}`;
+            }
+        }
+        render(view, message);
+        message = "";
+
+        const canJoin = view.phase === Phase.Lobby && view.seat === null;
+        const canAct = (view.phase === Phase.Night || view.phase === Phase.Day) && view.alive;
+        console.log(`${C.BLUE}--- ACTIONS ---${C.RESET}`);
+        if (canJoin) console.log(`   1. Join Lobby`);
+        if (canAct) console.log(`   1. Submit ${view.phase === Phase.Night ? "Action" : "Vote"}`);
+        console.log(`   2. Refresh`);
+        console.log(`   9. Exit`);
+
+        const choice = (await ask(`\n${C.BRIGHT}> Select Option: ${C.RESET}`)).trim();
+        try {
+            if (choice === '1' && canJoin) {
+                message = `${C.GREEN}✅ Joined as Player ${await player.join()}${C.RESET}`;
+            } else if (choice === '1' && canAct) {
+                const target = parseInt(await ask(`   Enter ${view.phase === Phase.Night ? "Target" : "Vote"} ID: `));
+                if (!isNaN(target)) {
+                    await player.act(target);
+                    message = `${C.GREEN}✅ Move submitted${C.RESET}`;
+                }
+            } else if (choice === '9') {
+                rl.close();
+                return;
+            }
+        } catch (e: any) {
+            message = `${C.RED}❌ ${e?.message ?? e}${C.RESET}`;
+        }
+    }
+}
+
+if (process.argv[1] && resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+    main(process.argv.slice(2));
+}
@@ -0,0 +1,78 @@
+/**
+ * Encrypted Role Delivery
+ *
+ * Each PlayerConfig carries the player's role as a curve point,
+ *
+ *   encryptedRole = G * (mask + role)
+ *
+ * where the mask is derived from the X25519 agreement between the node's
+ * per-game key and the player's `publicKey`, bound to the game and seat.
+ * Only the node and that player can compute the mask; the player then finds
+ * their role by trying the four possible values.
+ */
+
+import { createHash } from 'node:crypto';
+import { MAX_FIELD, ecMulGenerator, type CurvePoint } from '@midnight-ntwrk/compact-runtime';
+import { ledger } from '../ww-dist/contract/index.js';
+import { sharedActionKey } from './encryption.ts';
+import { Role } from './roles.ts';
+import type { LedgerState } from './verifier.ts';
+
+const MASK_LABEL = new TextEncoder().encode("werewolf:role-mask");
+const ROLES = Object.values(Role);
+
+// Keeps mask + role inside the field for every role
+const MASK_MODULUS = MAX_FIELD + 1n - BigInt(ROLES.length);
+
+function roleMask(myPrivateKey: Uint8Array, theirPublicKey: Uint8Array, gameId: Uint8Array, playerIdx: number): bigint {
+    const idx = new Uint8Array(4);
+    new DataView(idx.buffer).setUint32(0, playerIdx);
+    const digest = createHash('sha256')
+        .update(MASK_LABEL)
+        .update(sharedActionKey(myPrivateKey, theirPublicKey))
+        .update(gameId)
+        .update(idx)
+        .digest();
+    return BigInt('0x' + digest.toString('hex')) % MASK_MODULUS;
+}
+
+/** Node side: the `encryptedRole` for seat `playerIdx` */
+export function encryptRole(
+    nodePrivateKey: Uint8Array,
+    playerPublicKey: Uint8Array,
+    gameId: Uint8Array,
+    playerIdx: number,
+    role: number
+): CurvePoint {
+    return ecMulGenerator(roleMask(nodePrivateKey, playerPublicKey, gameId, playerIdx) + BigInt(role));
+}
+
+/** Player side: null when the point was not encrypted to this key and seat */
+export function decryptRole(
+    playerPrivateKey: Uint8Array,
+    nodePublicKey: Uint8Array,
+    gameId: Uint8Array,
+    playerIdx: number,
+    point: CurvePoint
+): number | null {
+    const mask = roleMask(playerPrivateKey, nodePublicKey, gameId, playerIdx);
+    for (const role of ROLES) {
+        const candidate = ecMulGenerator(mask + BigInt(role));
+        if (candidate.x === point.x && candidate.y === point.y) return role;
+    }
+    return null;
+}
+
+/** Player side: reads this seat's PlayerConfig from the ledger and opens it */
+export function readOwnRole(
+    state: LedgerState,
+    gameId: Uint8Array,
+    playerIdx: number,
+    playerPrivateKey: Uint8Array,
+    nodePublicKey: Uint8Array
+): number | null {
+    const configs = ledger(state).Werewolf_playerConfigs;
+    if (!configs.member(gameId) || !configs.lookup(gameId).member(BigInt(playerIdx))) return null;
+    const { encryptedRole } = configs.lookup(gameId).lookup(BigInt(playerIdx));
+    return decryptRole(playerPrivateKey, nodePublicKey, gameId, playerIdx, encryptedRole);
+}
@@ -0,0 +1,91 @@
+/**
+ * Role Assignment
+ *
+ * Roles are dealt by a Fisher-Yates shuffle whose randomness is a stream
+ * derived from the game's master secret (entropy.ts). Once the secret is
+ * published (forceEndGame -> gameSecrets), anyone can recompute the exact
+ * permutation.
+ */
+
+import { deriveKey } from './entropy.ts';
+
+export const Role = {
+    Villager: 0,
+    Werewolf: 1,
+    Seer: 2,
+    Doctor: 3
+}
+
+const SHUFFLE_LABEL = "shuffle";
+const TIES_LABEL = "ties";
+const WOLF_TIE_LABEL = "wolf-tie";
+const DAY_TIE_LABEL = "day-tie";
+
+export interface SpecialRoles {
+    seer?: boolean;
+    doctor?: boolean;
+}
+
+/** The multiset of roles in play, before shuffling */
+export function buildRoleDeck(count: number, wolves: number, specials: SpecialRoles = {}): number[] {
+    const deck: number[] = [];
+    for (let i = 0; i < wolves; i++) deck.push(Role.Werewolf);
+    if (specials.seer) deck.push(Role.Seer);
+    if (specials.doctor) deck.push(Role.Doctor);
+    if (deck.length > count) throw new Error(`${deck.length} special roles do not fit ${count} players`);
+    while (deck.length < count) deck.push(Role.Villager);
+    return deck;
+}
+
+// Deterministic stream of uniform integers: block k = deriveKey(secret, "shuffle", k)
+function shuffleStream(masterSecret: Uint8Array) {
+    let block = new Uint8Array(0);
+    let offset = 0;
+    let counter = 0;
+
+    const nextWord = (): number => {
+        if (offset + 4 > block.length) {
+            block = deriveKey(masterSecret, SHUFFLE_LABEL, counter++);
+            offset = 0;
+        }
+        const word = new DataView(block.buffer, block.byteOffset).getUint32(offset);
+        offset += 4;
+        return word;
+    };
+
+    return {
+        // Uniform in [0, n) via rejection sampling
+        nextBelow(n: number): number {
+            const limit = Math.floor(0x100000000 / n) * n;
+            let w = nextWord();
+            while (w >= limit) w = nextWord();
+            return w % n;
+        }
+    };
+}
+
+/** Seeds every tie break of a game, so the node can resolve turns after dropping the secret itself */
+export function deriveTieKey(masterSecret: Uint8Array): Uint8Array {
+    return deriveKey(masterSecret, TIES_LABEL);
+}
+
+/** Per-round seed for breaking a split wolf vote: deriveKey(tieKey, "wolf-tie", round) */
+export function wolfTieSeed(tieKey: Uint8Array, round: number): Uint8Array {
+    return deriveKey(tieKey, WOLF_TIE_LABEL, round);
+}
+
+/** Per-round seed for breaking a tied lynch vote, under its own label */
+export function dayTieSeed(tieKey: Uint8Array, round: number): Uint8Array {
+    return deriveKey(tieKey, DAY_TIE_LABEL, round);
+}
+
+/** Shuffles `deck` so that roles[i] is the role dealt to player i */
+export function shuffleRoles(masterSecret: Uint8Array, deck: number[]): number[] {
+    const roles = [...deck];
+    const stream = shuffleStream(masterSecret);
+    for (let i = roles.length - 1; i > 0; i--) {
+        const j = stream.nextBelow(i + 1);
+        [roles[i], roles[j]] = [roles[j], roles[i]];
+    }
+    return roles;
+}
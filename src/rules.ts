@@ -0,0 +1,170 @@
+/**
+ * Phase Resolution Rules
+ *
+ * Pure functions that turn the players' chosen targets into a phase outcome.
+ * The trusted node runs them in resolveTurn; anyone holding the same inputs
+ * can run them again and must get the same result.
+ */
+
+import { ActionKind } from './encryption.ts';
+import { Role } from './roles.ts';
+
+export interface Seat {
+    id: number;
+    role: number;
+    alive: boolean;
+}
+
+/** Private answer delivered to the Seer only */
+export interface SeerVision {
+    seer: number;
+    target: number;
+    isWolf: boolean;
+}
+
+/**
+ * How a split wolf pack is settled:
+ * - random: seeded pick among the tied targets (seed derives from the master secret)
+ * - none:   nobody dies
+ * - lowest: the lowest player id among the tied targets
+ */
+export type WolfTieRule = 'random' | 'none' | 'lowest';
+
+/**
+ * How a tied lynch vote is settled:
+ * - none:   nobody is lynched
+ * - lowest: the lowest player id among the tied targets
+ * - random: seeded pick among the tied targets (seed derives from the master secret)
+ */
+export type DayTieRule = 'none' | 'lowest' | 'random';
+
+export interface NightOptions {
+    wolfTieRule: WolfTieRule;
+    tieSeed: Uint8Array;  // Only read by the 'random' rule
+}
+
+export interface NightOutcome {
+    wolfTally: Record<number, number>;
+    packSplit: boolean;   // Top wolf targets were tied
+    wolfTarget: number;   // -1 when no wolf acted or the tie rule spared everyone
+    protectedId: number;  // -1 when no Doctor acted
+    victim: number;       // -1 when nobody dies
+    saved: boolean;       // Wolves struck the Doctor's protected player
+    visions: SeerVision[];
+}
+
+export interface DayOptions {
+    dayTieRule: DayTieRule;
+    tieSeed: Uint8Array;  // Only read by the 'random' rule
+}
+
+export interface DayOutcome {
+    tally: Record<number, number>;
+    tied: boolean;        // Top targets were tied
+    eliminated: number;   // -1 when nobody voted or the tie rule spared everyone
+}
+
+/** The only move a role may make in a phase; anything else is dropped */
+export function expectedKind(role: number, night: boolean): number {
+    if (!night) return ActionKind.Vote;
+    switch (role) {
+        case Role.Werewolf: return ActionKind.Kill;
+        case Role.Seer: return ActionKind.Inspect;
+        case Role.Doctor: return ActionKind.Protect;
+        default: return ActionKind.Sleep;
+    }
+}
+
+function livingTarget(seats: Seat[], target: number | undefined): number {
+    if (target === undefined || target < 0) return -1;
+    return seats[target]?.alive ? target : -1;
+}
+
+/**
+ * @param targets actor id -> chosen target id, for every submitted night action
+ */
+export function resolveNight(
+    seats: Seat[],
+    targets: Map<number, number>,
+    options: NightOptions = { wolfTieRule: 'lowest', tieSeed: new Uint8Array(32) }
+): NightOutcome {
+    const acting = (role: number) => seats.filter(s => s.alive && s.role === role && livingTarget(seats, targets.get(s.id)) !== -1);
+
+    // Wolf pack consensus: the target most living wolves chose
+    const wolfTally: Record<number, number> = {};
+    for (const wolf of acting(Role.Werewolf)) {
+        const t = targets.get(wolf.id)!;
+        wolfTally[t] = (wolfTally[t] || 0) + 1;
+    }
+    const top = Math.max(0, ...Object.values(wolfTally));
+    const leaders = Object.keys(wolfTally).map(Number).filter(t => wolfTally[t] === top).sort((a, b) => a - b);
+    const packSplit = leaders.length > 1;
+
+    let wolfTarget = -1;
+    if (leaders.length === 1) {
+        wolfTarget = leaders[0];
+    } else if (packSplit) {
+        switch (options.wolfTieRule) {
+            case 'lowest': wolfTarget = leaders[0]; break;
+            case 'random': wolfTarget = leaders[seededIndex(options.tieSeed, leaders.length)]; break;
+            case 'none':   wolfTarget = -1; break;
+        }
+    }
+
+    const doctor = acting(Role.Doctor)[0];
+    const protectedId = doctor ? targets.get(doctor.id)! : -1;
+
+    const visions = acting(Role.Seer).map(seer => {
+        const target = targets.get(seer.id)!;
+        return { seer: seer.id, target, isWolf: seats[target].role === Role.Werewolf };
+    });
+
+    const saved = wolfTarget !== -1 && wolfTarget === protectedId;
+    return {
+        wolfTally,
+        packSplit,
+        wolfTarget,
+        protectedId,
+        victim: wolfTarget !== -1 && !saved ? wolfTarget : -1,
+        saved,
+        visions
+    };
+}
+
+// Uniform enough for n <= 10: a 256-bit seed reduced mod n
+function seededIndex(seed: Uint8Array, n: number): number {
+    let acc = 0n;
+    for (const b of seed) acc = (acc << 8n) | BigInt(b);
+    return Number(acc % BigInt(n));
+}
+
+/**
+ * @param votes voter id -> voted target id
+ */
+export function resolveDay(
+    seats: Seat[],
+    votes: Map<number, number>,
+    options: DayOptions = { dayTieRule: 'none', tieSeed: new Uint8Array(32) }
+): DayOutcome {
+    const tally: Record<number, number> = {};
+    for (const [voter, target] of votes) {
+        if (!seats[voter]?.alive || livingTarget(seats, target) === -1) continue;
+        tally[target] = (tally[target] || 0) + 1;
+    }
+
+    const top = Math.max(0, ...Object.values(tally));
+    const leaders = Object.keys(tally).map(Number).filter(t => tally[t] === top).sort((a, b) => a - b);
+    const tied = leaders.length > 1;
+
+    let eliminated = -1;
+    if (leaders.length === 1) {
+        eliminated = leaders[0];
+    } else if (tied) {
+        switch (options.dayTieRule) {
+            case 'lowest': eliminated = leaders[0]; break;
+            case 'random': eliminated = leaders[seededIndex(options.tieSeed, leaders.length)]; break;
+            case 'none':   eliminated = -1; break;
+        }
+    }
+    return { tally, tied, eliminated };
+}
@@ -0,0 +1,351 @@
+/**
+ * Local Game Server
+ *
+ * Exposes one TrustedNode to remote player clients over HTTP on localhost,
+ * with phase changes streamed as server-sent events. No outside services.
+ * The node may host several games; a request names its game with an x-game
+ * header (hex gameId) and otherwise reaches the one selected last.
+ *
+ *   GET  /games          every game on this node, with phase and seats
+ *   GET  /state          public game state + the node's encryption key
+ *   GET  /events         event stream (lobby / phase changes / game over) across all games
+ *   POST /join           { secretKey } -> { seat }
+ *   GET  /me             [signed] your role and private findings
+ *   POST /action         [signed] { envelope } sealed to the node's key
+ *   GET  /ledger         contract state snapshot for clients that prove their own calls
+ *   POST /tx/join        { base, result } a joinGame run by the player
+ *   POST /tx/move        [signed] { envelope, path, base, result } a nightAction / voteDay run by the player
+ *   GET  /summary        winner, roles and timeline, once the game is over
+ *   POST /admin/*        [admin token] custody | open | start | resolve | cancel | unlock | end | rematch
+ *
+ * Signed requests carry x-seat / x-timestamp / x-signature (see auth.ts).
+ * /admin/custody ({ passphrase } or { threshold, total }) must come before
+ * the first /admin/open. With shares, open and rematch answer with the new
+ * game's share lines, once, and /admin/end waits for /admin/unlock { shares }.
+ * So does /admin/start on a node resumed in the lobby, which no longer holds
+ * the secret to deal roles with.
+ *
+ * Usage: npm run serve -- [port] [--save node.snapshot | --resume node.snapshot] [--admin-key admin.key]
+ *
+ * With --save / --resume the node is sealed to the file (persistence.ts)
+ * after every accepted POST, under the passphrase in $WW_PASSPHRASE.
+ */
+
+import { Buffer } from 'node:buffer';
+import { randomBytes } from 'node:crypto';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { MerkleTreePath } from '@midnight-ntwrk/compact-runtime';
+import { loadAdminKeyFile } from './adminKey.ts';
+import { ReplayGuard, verifyRequest } from './auth.ts';
+import { bytesToHex, hexToBytes } from './bytes.ts';
+import type { LedgerSnapshot } from './ledgerSnapshot.ts';
+import { decodeMerklePath } from './merkle.ts';
+import { Phase, TrustedNode, type NodeEvent } from './node.ts';
+import { PASSPHRASE_ENV, resumeNode, saveNode } from './persistence.ts';
+import { custodyPolicy, decodeShare, describeCustody, encodeShare, validateCustody, type CustodySetup } from './custody.ts';
+import type { DayTieRule, WolfTieRule } from './rules.ts';
+
+// Self-proved calls carry a whole ledger snapshot
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+export interface ServerOptions {
+    adminToken: string;
+    onChange?: () => void;  // After each POST that succeeded, e.g. to save the node
+}
+
+class HttpError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+    }
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let size = 0;
+        const chunks: Buffer[] = [];
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                reject(new HttpError(413, "Body too large"));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+        req.on('error', reject);
+    });
+}
+
+function parseJson(body: string): any {
+    if (!body) return {};
+    try {
+        return JSON.parse(body);
+    } catch {
+        throw new HttpError(400, "Body is not JSON");
+    }
+}
+
+function send(res: ServerResponse, status: number, data: unknown) {
+    res.writeHead(status, { 'content-type': 'application/json' });
+    res.end(JSON.stringify(data));
+}
+
+function custodyFrom(input: any): CustodySetup {
+    if (typeof input.passphrase === 'string') return { kind: 'passphrase', passphrase: input.passphrase };
+    if (input.threshold !== undefined || input.total !== undefined) return { kind: 'shares', threshold: input.threshold, total: input.total };
+    throw new HttpError(400, "custody needs a passphrase, or a threshold and total");
+}
+
+function snapshotFrom(input: any): LedgerSnapshot {
+    if (typeof input?.state !== 'string' || typeof input?.digest !== 'string') throw new HttpError(400, "result must be a ledger snapshot");
+    return { state: input.state, digest: input.digest };
+}
+
+function pathFrom(input: any): MerkleTreePath<Uint8Array> {
+    try {
+        return decodeMerklePath(input);
+    } catch (e: any) {
+        throw new HttpError(400, `path: ${e?.message ?? e}`);
+    }
+}
+
+export function createApiServer(node: TrustedNode, options: ServerOptions): Server {
+    const replays = new ReplayGuard();
+
+    // Returns the seat whose key signed this request
+    const authenticate = (req: IncomingMessage, path: string, body: string): number => {
+        const seat = Number(req.headers['x-seat']);
+        const timestamp = Number(req.headers['x-timestamp']);
+        const signature = String(req.headers['x-signature'] ?? "");
+        const key = Number.isInteger(seat) ? node.authKeyFor(seat) : null;
+        if (!key || !verifyRequest(key, req.method!, path, timestamp, body, signature)) {
+            throw new HttpError(401, "Bad signature");
+        }
+        if (!replays.accept(signature, timestamp)) throw new HttpError(401, "Stale or replayed request");
+        return seat;
+    };
+
+    const requireAdmin = (req: IncomingMessage) => {
+        if (req.headers['authorization'] !== `Bearer ${options.adminToken}`) throw new HttpError(401, "Admin token required");
+    };
+
+    const streamEvents = (req: IncomingMessage, res: ServerResponse) => {
+        res.writeHead(200, { 'content-type': 'text/event-stream', 'cache-control': 'no-cache', connection: 'keep-alive' });
+        res.write(`: connected\n\n`);
+        const forward = (e: NodeEvent) => res.write(`event: ${e.type}\ndata: ${JSON.stringify(e)}\n\n`);
+        node.on('event', forward);
+        req.on('close', () => node.off('event', forward));
+    };
+
+    const route = async (req: IncomingMessage, res: ServerResponse) => {
+        const path = new URL(req.url ?? "/", "http://localhost").pathname;
+        const method = req.method ?? "GET";
+
+        if (method === 'GET' && path === '/events') return streamEvents(req, res);
+
+        const body = method === 'POST' ? await readBody(req) : "";
+        const input = parseJson(body);
+
+        // Pointed at only for this request, so the selection other callers
+        // rely on stays put. The game's node key also keys the seat
+        // signatures, so a signed request cannot be replayed against another game.
+        const game = req.headers['x-game'];
+        if (typeof game !== 'string') return dispatch(req, res, method, path, body, input);
+        const handled = node.withGame(game, () => dispatch(req, res, method, path, body, input));
+        if (!handled) throw new HttpError(404, "Unknown game");
+        return handled;
+    };
+
+    const dispatch = async (req: IncomingMessage, res: ServerResponse, method: string, path: string, body: string, input: any) => {
+        switch (`${method} ${path}`) {
+            case 'GET /games':
+                return send(res, 200, node.listGames());
+
+            case 'GET /state':
+                return send(res, 200, { ...node.getPublicState(), nodeKey: bytesToHex(node.getEncryptionPublicKey()) });
+
+            case 'POST /join': {
+                // The node proves on the player's behalf, so it needs the identity
+                // secret once; every later request is signed instead.
+                if (typeof input.secretKey !== 'string' || input.secretKey.length !== 64) {
+                    throw new HttpError(400, "secretKey must be 32 bytes of hex");
+                }
+                const seat = await node.joinLobby(hexToBytes(input.secretKey));
+                if (seat === null) throw new HttpError(409, "Could not join");
+                return send(res, 200, { seat });
+            }
+
+            case 'GET /me': {
+                const view = node.getPrivateView(authenticate(req, path, body));
+                if (!view) throw new HttpError(409, "Roles have not been dealt yet");
+                return send(res, 200, view);
+            }
+
+            case 'POST /action': {
+                const seat = authenticate(req, path, body);
+                if (typeof input.envelope !== 'string') throw new HttpError(400, "envelope required");
+                const accepted = await node.submitEnvelope(seat, hexToBytes(input.envelope));
+                if (!accepted) throw new HttpError(409, "Action rejected");
+                return send(res, 200, { accepted });
+            }
+
+            case 'GET /ledger':
+                return send(res, 200, node.ledgerSnapshot());
+
+            case 'GET /summary': {
+                const summary = node.exportSummary();
+                if (!summary) throw new HttpError(409, "The game is not over");
+                return send(res, 200, summary);
+            }
+
+            case 'POST /tx/join': {
+                const seat = await node.acceptJoin(String(input.base), snapshotFrom(input.result));
+                if (seat === null) throw new HttpError(409, "joinGame rejected");
+                return send(res, 200, { seat });
+            }
+
+            case 'POST /tx/move': {
+                const seat = authenticate(req, path, body);
+                if (typeof input.envelope !== 'string') throw new HttpError(400, "envelope required");
+                const accepted = await node.acceptMove(seat, hexToBytes(input.envelope), pathFrom(input.path), String(input.base), snapshotFrom(input.result));
+                if (!accepted) throw new HttpError(409, "Move rejected");
+                return send(res, 200, { accepted });
+            }
+
+            case 'POST /admin/custody': {
+                requireAdmin(req);
+                const setup = custodyFrom(input);
+                if (!node.setCustody(setup)) throw new HttpError(400, validateCustody(setup).join('; '));
+                return send(res, 200, { custody: describeCustody(custodyPolicy(setup)) });
+            }
+
+            case 'POST /admin/open':
+                requireAdmin(req);
+                if (!node.hasCustody()) {
+                    throw new HttpError(409, node.getCustodyToRenew() ? "Send the custody passphrase again after the restart" : "Set up master secret custody first");
+                }
+                if (!await node.openLobby(input.minPlayers, input.maxPlayers)) throw new HttpError(409, "Could not open");
+                return send(res, 200, { ...node.getPublicState(), shares: node.takeShares().map(encodeShare) });
+
+            case 'POST /admin/start': {
+                requireAdmin(req);
+                if (node.needsShares()) throw new HttpError(409, "Recombine the master secret shares first");
+                const started = await node.startGame(input.wolves ?? 1, {
+                    seer: input.seer ?? true,
+                    doctor: input.doctor ?? true,
+                    wolfTieRule: input.wolfTieRule as WolfTieRule | undefined,
+                    dayTieRule: input.dayTieRule as DayTieRule | undefined
+                });
+                if (!started) throw new HttpError(409, "Could not start");
+                return send(res, 200, node.getPublicState());
+            }
+
+            case 'POST /admin/resolve':
+                requireAdmin(req);
+                await node.resolveTurn();
+                return send(res, 200, node.getPublicState());
+
+            case 'POST /admin/cancel':
+                requireAdmin(req);
+                await node.cancelLobby();
+                return send(res, 200, node.getPublicState());
+
+            case 'POST /admin/unlock': {
+                requireAdmin(req);
+                if (!Array.isArray(input.shares)) throw new HttpError(400, "shares must be a list of share lines");
+                const shares = input.shares.map((line: unknown) => {
+                    try {
+                        return decodeShare(String(line));
+                    } catch (e: any) {
+                        throw new HttpError(400, e.message);
+                    }
+                });
+                if (!node.recombineShares(shares)) throw new HttpError(409, "Shares do not reopen the master secret");
+                return send(res, 200, { unlocked: true });
+            }
+
+            case 'POST /admin/end':
+                requireAdmin(req);
+                if (node.needsShares()) throw new HttpError(409, "Recombine the master secret shares first");
+                return send(res, 200, { fairness: await node.verifyFairness() });
+
+            case 'POST /admin/rematch':
+                // Self-custody players re-join with their own key; start once they have
+                requireAdmin(req);
+                if (node.getPhase() !== Phase.Finished) throw new HttpError(409, "The game is not over");
+                await node.rematch();
+                return send(res, 200, { ...node.getPublicState(), shares: node.takeShares().map(encodeShare) });
+        }
+        throw new HttpError(404, "Not found");
+    };
+
+    return createServer((req, res) => {
+        route(req, res).then(() => {
+            if (req.method !== 'POST' || res.statusCode >= 400) return;
+            // The reply is already out, so a failed save can only be reported here
+            try {
+                options.onChange?.();
+            } catch (e: any) {
+                const game = String(req.headers['x-game'] ?? bytesToHex(node.gameId));
+                console.log(`❌ Could not save after ${req.method} ${req.url} (game ${game.slice(0, 6)}): ${e?.message ?? e}`);
+            }
+        }, (e: any) => {
+            if (res.headersSent) return res.end();
+            send(res, e instanceof HttpError ? e.status : 500, { error: e?.message ?? String(e) });
+        });
+    });
+}
+
+// ============================================
+// COMMAND
+// ============================================
+
+async function main(argv: string[]) {
+    const flag = (name: string) => {
+        const i = argv.indexOf(name);
+        return i === -1 ? undefined : argv[i + 1];
+    };
+    const port = Number(argv[0]?.startsWith('--') ? 8787 : argv[0] ?? 8787);
+    const adminToken = randomBytes(16).toString('hex');
+    const resume = flag('--resume');
+    const path = resume ?? flag('--save');
+    const passphrase = process.env[PASSPHRASE_ENV] ?? "";
+    if (path && !passphrase) {
+        console.log(`Set ${PASSPHRASE_ENV} to seal ${path}`);
+        process.exit(1);
+    }
+
+    let node = new TrustedNode();
+    if (resume) {
+        try {
+            node = resumeNode(resume, passphrase);
+        } catch (e: any) {
+            console.log(`❌ Cannot resume: ${e?.message ?? e}`);
+            process.exit(1);
+        }
+    } else {
+        const adminKey = flag('--admin-key');
+        try {
+            await node.initAdmin(adminKey ? loadAdminKeyFile(adminKey) : undefined);
+        } catch (e: any) {
+            console.log(`❌ Cannot use the admin key: ${e?.message ?? e}`);
+            process.exit(1);
+        }
+    }
+
+    const server = createApiServer(node, {
+        adminToken,
+        onChange: path ? () => saveNode(node, path, passphrase) : undefined
+    });
+    server.listen(port, '127.0.0.1', () => {
+        console.log(`🐺 Werewolf node listening on http://127.0.0.1:${port}`);
+        console.log(`   Admin token: ${adminToken}`);
+    });
+}
+
+if (process.argv[1] && resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+    main(process.argv.slice(2));
+}
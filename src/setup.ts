@@ -0,0 +1,85 @@
+/**
+ * Game Setup
+ *
+ * Seat count, role composition and tie rules for one game, from a named
+ * preset, a JSON config file or the terminal wizard. validateSetup mirrors
+ * the contract's own asserts (initGame / startGame), so a bad setup is
+ * refused before any circuit is called.
+ *
+ * Config file: either a full GameSetup, or { "preset": "classic 7", ...overrides }.
+ */
+
+import { readFileSync } from 'node:fs';
+import type { DayTieRule, WolfTieRule } from './rules.ts';
+
+// initGame: minPlayers >= 3, maxPlayers <= 10 (Vector<10, RoleAssignment>)
+export const MIN_PLAYERS = 3;
+export const MAX_PLAYERS = 10;
+
+const WOLF_TIE_RULES: WolfTieRule[] = ['random', 'none', 'lowest'];
+const DAY_TIE_RULES: DayTieRule[] = ['none', 'lowest', 'random'];
+
+export interface GameSetup {
+    players: number;          // Seats the lobby opens with; the game starts when all are taken
+    wolves: number;
+    seer: boolean;
+    doctor: boolean;
+    wolfTieRule: WolfTieRule;
+    dayTieRule: DayTieRule;
+}
+
+export const PRESETS: Record<string, GameSetup> = {
+    "quick 3":    { players: 3,  wolves: 1, seer: false, doctor: false, wolfTieRule: 'random', dayTieRule: 'none' },
+    "starter 5":  { players: 5,  wolves: 1, seer: true,  doctor: true,  wolfTieRule: 'random', dayTieRule: 'none' },
+    "classic 7":  { players: 7,  wolves: 2, seer: true,  doctor: true,  wolfTieRule: 'random', dayTieRule: 'none' },
+    "village 10": { players: 10, wolves: 3, seer: true,  doctor: true,  wolfTieRule: 'random', dayTieRule: 'random' }
+};
+
+export const DEFAULT_SETUP = PRESETS["starter 5"];
+
+/** Most wolves a table of `players` allows: strictly fewer than everyone else */
+export function maxWolves(players: number): number {
+    return Math.ceil(players / 2) - 1;
+}
+
+/** Every reason the contract (or the deck) would refuse this setup; empty when valid */
+export function validateSetup(setup: GameSetup): string[] {
+    const errors: string[] = [];
+    const { players, wolves } = setup;
+
+    if (!Number.isInteger(players) || players < MIN_PLAYERS || players > MAX_PLAYERS) {
+        errors.push(`Player count must be ${MIN_PLAYERS}-${MAX_PLAYERS}, got ${players}`);
+    }
+    if (!Number.isInteger(wolves) || wolves < 1) {
+        errors.push(`At least one wolf is needed, got ${wolves}`);
+    } else if (wolves >= players - wolves) {
+        errors.push(`Wolves must be fewer than villagers: ${wolves} wolves against ${players - wolves}`);
+    }
+    const specials = wolves + (setup.seer ? 1 : 0) + (setup.doctor ? 1 : 0);
+    if (specials > players) errors.push(`${specials} special roles do not fit ${players} players`);
+
+    if (!WOLF_TIE_RULES.includes(setup.wolfTieRule)) errors.push(`Unknown wolf tie rule '${setup.wolfTieRule}'`);
+    if (!DAY_TIE_RULES.includes(setup.dayTieRule)) errors.push(`Unknown day tie rule '${setup.dayTieRule}'`);
+    return errors;
+}
+
+export function presetSetup(name: string): GameSetup {
+    const preset = PRESETS[name.trim().toLowerCase()];
+    if (!preset) throw new Error(`Unknown preset '${name}' (have: ${Object.keys(PRESETS).join(', ')})`);
+    return { ...preset };
+}
+
+export function loadSetupFile(path: string): GameSetup {
+    const { preset, ...overrides } = JSON.parse(readFileSync(path, 'utf8'));
+    const setup: GameSetup = { ...(preset ? presetSetup(preset) : DEFAULT_SETUP), ...overrides };
+    const errors = validateSetup(setup);
+    if (errors.length > 0) throw new Error(`${path}: ${errors.join('; ')}`);
+    return setup;
+}
+
+export function describeSetup(setup: GameSetup): string {
+    const specials = [setup.seer && "Seer", setup.doctor && "Doctor"].filter(Boolean);
+    return `${setup.players} players, ${setup.wolves} wolf${setup.wolves === 1 ? "" : "s"}` +
+        (specials.length ? `, ${specials.join(" + ")}` : "") +
+        `; ties: wolves '${setup.wolfTieRule}', day '${setup.dayTieRule}'`;
+}
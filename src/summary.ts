@@ -0,0 +1,66 @@
+/**
+ * Game Summary
+ *
+ * The record the node builds once a game is Finished: which side won and
+ * why, each player's role and fate, and a per-round timeline of kills,
+ * lynches, saves and reveals. The terminal shows it as its final screen;
+ * `exportSummary` / `writeSummary` hand out the same object as JSON.
+ */
+
+import type { Team } from './node.ts';
+
+export type TimelineKind =
+    | 'kill'     // the wolves killed `player`
+    | 'save'     // the Doctor kept `player` alive through the wolves' attack
+    | 'quiet'    // nobody died that night
+    | 'lynch'    // the town voted out `player`
+    | 'spared'   // the vote eliminated nobody
+    | 'reveal';  // `player`'s role was opened on the ledger
+
+export interface TimelineEvent {
+    round: number;
+    phase: number;
+    kind: TimelineKind;
+    player: number | null;  // null for 'quiet' and 'spared'
+    role: number | null;    // set for 'reveal'
+}
+
+export interface PlayerFate {
+    id: number;
+    role: number;
+    alive: boolean;
+    diedRound: number | null;
+    cause: 'kill' | 'lynch' | null;
+}
+
+export interface GameSummary {
+    version: 1;
+    gameId: string;
+    winner: Team | null;
+    reason: string;
+    rounds: number;
+    players: PlayerFate[];
+    timeline: TimelineEvent[];
+}
+
+export function winReason(winner: Team | null): string {
+    switch (winner) {
+        case 'village': return "every werewolf is dead";
+        case 'wolves':  return "the wolves match the village";
+        default:        return "the game was ended before either side won";
+    }
+}
+
+export function summarize(gameId: string, winner: Team | null, rounds: number, roles: number[], timeline: TimelineEvent[]): GameSummary {
+    const players = roles.map((role, id): PlayerFate => {
+        const death = timeline.find(e => e.player === id && (e.kind === 'kill' || e.kind === 'lynch'));
+        return {
+            id,
+            role,
+            alive: !death,
+            diedRound: death?.round ?? null,
+            cause: death ? death.kind as 'kill' | 'lynch' : null
+        };
+    });
+    return { version: 1, gameId, winner, reason: winReason(winner), rounds, players, timeline: [...timeline] };
+}
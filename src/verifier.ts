@@ -0,0 +1,132 @@
+/**
+ * Public Fairness Verifier
+ *
+ * Works from ledger data alone: reads the master secret published by
+ * forceEndGame, recomputes the whole role permutation and checks it against
+ * every roleCommitment in Werewolf_playerConfigs. The ledger does not record
+ * the deck, so findRoleDeck tries every composition startGame could have
+ * dealt; the commitments open for one of them at most.
+ *
+ * Usage: npm run verify-shuffle -- <ledger.json> <game-id>
+ *        (ledger.json as served by GET /ledger)
+ */
+
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { ledger, pureCircuits } from '../ww-dist/contract/index.js';
+import { bytesEqual, hexToBytes } from './bytes.ts';
+import { decodeLedger } from './ledgerSnapshot.ts';
+import { Role, buildRoleDeck, shuffleRoles } from './roles.ts';
+
+export type LedgerState = Parameters<typeof ledger>[0];
+
+export interface ShuffleCheck {
+    id: number;
+    role: number;   // Role recomputed from the published secret
+    valid: boolean; // Matches the on-chain commitment
+}
+
+export interface ShuffleReport {
+    secretMatchesCommitment: boolean;
+    players: ShuffleCheck[];
+    passed: boolean;
+}
+
+/**
+ * @param deck The announced role composition (e.g. buildRoleDeck(5, 1)),
+ *             in the order it was shuffled from.
+ */
+export function verifyRoleShuffle(state: LedgerState, gameId: Uint8Array, deck: number[]): ShuffleReport {
+    const l = ledger(state);
+    if (!l.Werewolf_games.member(gameId)) throw new Error("Game not found");
+    if (!l.Werewolf_gameSecrets.member(gameId)) throw new Error("Master secret not published yet");
+
+    const game = l.Werewolf_games.lookup(gameId);
+    const masterSecret = l.Werewolf_gameSecrets.lookup(gameId);
+    const secretMatchesCommitment = bytesEqual(pureCircuits.testComputeHash(masterSecret), game.masterSecretCommitment);
+
+    if (deck.length !== Number(game.playerCount)) {
+        throw new Error(`Deck has ${deck.length} roles but the game has ${game.playerCount} players`);
+    }
+
+    const configs = l.Werewolf_playerConfigs.lookup(gameId);
+    const roles = shuffleRoles(masterSecret, deck);
+    const players = roles.map((role, id) => {
+        const salt = pureCircuits.testComputeSalt(masterSecret, BigInt(id));
+        const expected = pureCircuits.testComputeCommitment(BigInt(role), salt);
+        return { id, role, valid: bytesEqual(expected, configs.lookup(BigInt(id)).roleCommitment) };
+    });
+
+    return {
+        secretMatchesCommitment,
+        players,
+        passed: secretMatchesCommitment && players.every(p => p.valid)
+    };
+}
+
+/** The deck whose shuffle opens every role commitment, or null if no composition does */
+export function findRoleDeck(state: LedgerState, gameId: Uint8Array): number[] | null {
+    const l = ledger(state);
+    if (!l.Werewolf_games.member(gameId)) throw new Error("Game not found");
+    const count = Number(l.Werewolf_games.lookup(gameId).playerCount);
+    for (let wolves = 1; wolves < count; wolves++) {
+        for (const seer of [false, true]) {
+            for (const doctor of [false, true]) {
+                if (wolves + Number(seer) + Number(doctor) > count) continue;
+                const deck = buildRoleDeck(count, wolves, { seer, doctor });
+                if (verifyRoleShuffle(state, gameId, deck).passed) return deck;
+            }
+        }
+    }
+    return null;
+}
+
+// ============================================
+// COMMAND
+// ============================================
+
+function describeDeck(deck: number[]): string {
+    return Object.entries(Role)
+        .map(([name, role]) => [name, deck.filter(r => r === role).length] as const)
+        .filter(([, n]) => n > 0)
+        .map(([name, n]) => `${n} ${name}`)
+        .join(', ');
+}
+
+function main(argv: string[]) {
+    const [ledgerFile, gameIdHex] = argv;
+    if (!ledgerFile || !/^[0-9a-f]{64}$/i.test(gameIdHex ?? "")) {
+        console.error("Usage: npm run verify-shuffle -- <ledger.json> <game-id>");
+        process.exit(2);
+    }
+
+    const state = decodeLedger(JSON.parse(readFileSync(ledgerFile, 'utf8')));
+    const gameId = hexToBytes(gameIdHex);
+    console.log(`Game:    ${gameIdHex.toLowerCase()}`);
+    let deck: number[] | null;
+    try {
+        deck = findRoleDeck(state, gameId);
+    } catch (e: any) {
+        console.log(`Shuffle: ❌ ${e?.message ?? e}`);
+        process.exit(1);
+    }
+    if (!deck) {
+        const l = ledger(state);
+        const opens = bytesEqual(pureCircuits.testComputeHash(l.Werewolf_gameSecrets.lookup(gameId)), l.Werewolf_games.lookup(gameId).masterSecretCommitment);
+        console.log(opens
+            ? "Shuffle: ❌ no role composition opens every commitment"
+            : "Shuffle: ❌ published secret does not match its commitment");
+        process.exit(1);
+    }
+    console.log(`Deck:    ${describeDeck(deck)}`);
+    for (const p of verifyRoleShuffle(state, gameId, deck).players) {
+        const name = Object.entries(Role).find(([, role]) => role === p.role)?.[0];
+        console.log(`✅ Player ${p.id}: ${name}`);
+    }
+    console.log("Shuffle: ✅ every role recomputes from the published secret");
+}
+
+if (process.argv[1] && resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+    main(process.argv.slice(2));
+}
@@ -0,0 +1,80 @@
+/**
+ * Table Views
+ *
+ * What each kind of viewer may see of the current game. The terminal
+ * renders a TableView and never reads the node itself, so a view can only
+ * show what its builder put into it.
+ *
+ *   god        every role and submission, as the node knows them
+ *   player N   the public table plus N's role, packmates and Seer findings
+ *   spectator  the ledger alone: alive flags and roles opened by revealPlayerRole
+ */
+
+import { ledger } from '../ww-dist/contract/index.js';
+import type { SeerFinding, TrustedNode } from './node.ts';
+import { Role } from './roles.ts';
+import type { LedgerState } from './verifier.ts';
+
+export type Viewer =
+    | { kind: 'god' }
+    | { kind: 'player'; id: number }
+    | { kind: 'spectator' };
+
+export interface SeatRow {
+    id: number;
+    alive: boolean;
+    role: number | null;       // null when this viewer cannot know it
+    hasActed: boolean | null;  // null when this viewer cannot know it
+}
+
+export interface TableView {
+    viewer: Viewer;
+    rows: SeatRow[];
+    you: { id: number; role: number; alive: boolean } | null;
+    packmates: number[];
+    seerFindings: SeerFinding[];
+    packProposals: { wolf: number; target: number }[];
+}
+
+/** Seats as anyone watching the ledger sees them */
+export function spectatorRows(state: LedgerState, gameId: Uint8Array): SeatRow[] {
+    const l = ledger(state);
+    if (!l.Werewolf_playerAlive.member(gameId)) return [];
+    const revealed = l.Werewolf_revealedRoles.member(gameId) ? l.Werewolf_revealedRoles.lookup(gameId) : null;
+    return [...l.Werewolf_playerAlive.lookup(gameId)]
+        .map(([id, alive]) => ({
+            id: Number(id),
+            alive,
+            role: revealed?.member(id) ? Number(revealed.lookup(id)) : null,
+            hasActed: null
+        }))
+        .sort((a, b) => a.id - b.id);
+}
+
+export function buildView(node: TrustedNode, viewer: Viewer): TableView {
+    const view: TableView = { viewer, rows: [], you: null, packmates: [], seerFindings: [], packProposals: [] };
+
+    if (viewer.kind === 'god') {
+        view.rows = node.getRoster();
+        return view;
+    }
+
+    view.rows = spectatorRows(node.context.currentQueryContext.state, node.gameId);
+    if (viewer.kind === 'spectator') return view;
+
+    const me = node.getPrivateView(viewer.id);
+    if (!me) return view;
+    for (const row of view.rows) {
+        if (row.id === me.id) {
+            row.role = me.role;
+            row.hasActed = me.hasActed;
+        } else if (me.packmates.includes(row.id)) {
+            row.role = Role.Werewolf;
+        }
+    }
+    view.you = { id: me.id, role: me.role, alive: me.alive };
+    view.packmates = me.packmates;
+    view.seerFindings = me.seerFindings;
+    view.packProposals = me.packProposals;
+    return view;
+}
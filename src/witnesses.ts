@@ -0,0 +1,35 @@
+/**
+ * Player Private State & Witnesses
+ *
+ * Circuits read a player's identity secret, role and role salt through
+ * witnesses instead of arguments, so the values stay with the prover.
+ * Each call runs against the private state of the player making it;
+ * admin calls run with no private state loaded.
+ */
+
+import type { CircuitContext, WitnessContext } from '@midnight-ntwrk/compact-runtime';
+import type { Ledger, Witnesses } from '../ww-dist/contract/index.js';
+
+export interface PlayerSecrets {
+    secretKey: Uint8Array;  // Identity secret; Crypto.hash of it is the alive-tree leaf
+    role: number;
+    roleSalt: Uint8Array;   // Opens the role commitment in PlayerConfig
+}
+
+export type PrivateState = PlayerSecrets | null;
+
+function loaded({ privateState }: WitnessContext<Ledger, PrivateState>): PlayerSecrets {
+    if (!privateState) throw new Error("No player private state loaded for this call");
+    return privateState;
+}
+
+export const witnesses: Witnesses<PrivateState> = {
+    localSecretKey: (context) => [context.privateState, loaded(context).secretKey],
+    localRole: (context) => [context.privateState, BigInt(loaded(context).role)],
+    localRoleSalt: (context) => [context.privateState, loaded(context).roleSalt]
+};
+
+/** The same context, with `state` answering the next call's witnesses */
+export function withPrivateState(context: CircuitContext<PrivateState>, state: PrivateState): CircuitContext<PrivateState> {
+    return { ...context, currentPrivateState: state };
+}
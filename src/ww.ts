@@ -7,410 +7,83 @@
  * - Detailed Contract Call Logging
  * - Trusted Node State Management
  * - Game Integrity Verification (Master Secret)
+ * - Several games at once, with a list to switch between them
+ *
+ * Usage: npm start -- [--preset "classic 7" | --config game.json] [--save node.snapshot | --resume node.snapshot]
+ *                     [--admin-key admin.key]
+ *
+ * --admin-key proves admin calls with a key from `npm run admin-key`;
+ * without it the node makes a fresh admin key for this session.
+ * --save seals the node's state to the file after every command; --resume
+ * reloads it (checked against the ledger) and keeps saving there. The
+ * passphrase comes from $WW_PASSPHRASE, or is asked for.
+ *
+ * Before the first game the terminal asks who holds the master secrets: a
+ * passphrase, or k-of-n shares printed once for the co-admins and asked
+ * back before the secret is published.
  */
 
-import { Buffer } from 'node:buffer';
 import * as readline from 'node:readline';
-import { createHash } from 'node:crypto';
+import { C, PHASE_STR, Phase, ROLE_STR, TEAM_STR, TrustedNode, toHex } from './node.ts';
+import { bytesToHex } from './bytes.ts';
+import { buildView, type TableView, type Viewer } from './views.ts';
+import type { GameSummary, TimelineEvent, TimelineKind } from './summary.ts';
 import {
-    createConstructorContext,
-    CostModel,
-    QueryContext,
-    sampleContractAddress,
-    type CircuitContext
-} from '@midnight-ntwrk/compact-runtime';
-
-import { Contract, type Witnesses } from '../ww-dist/contract/index.js';
-
-// ============================================
-// ANSI COLORS & STYLING
-// ============================================
-const C = {
-    RESET: "\x1b[0m",
-    BRIGHT: "\x1b[1m",
-    DIM: "\x1b[2m",
-    RED: "\x1b[31m",
-    GREEN: "\x1b[32m",
-    YELLOW: "\x1b[33m",
-    BLUE: "\x1b[34m",
-    CYAN: "\x1b[36m",
-    WHITE: "\x1b[37m",
-    BG_RED: "\x1b[41m"
-};
-
-// ============================================
-// CONSTANTS
-// ============================================
-
-const Role = {
-    Villager: 0,
-    Werewolf: 1,
-    Seer: 2,
-    Doctor: 3
-}
-
-const Phase = {
-    Lobby: 0,
-    Night: 1,
-    Day: 2,
-    Finished: 3
-}
-
-const ROLE_STR = {
-    [Role.Villager]: "Villager 👱",
-    [Role.Werewolf]: "Werewolf 🐺",
-    [Role.Seer]:     "Seer     🔮",
-    [Role.Doctor]:   "Doctor   💉"
-};
-
-const PHASE_STR = {
-    [Phase.Lobby]:    "LOBBY",
-    [Phase.Night]:    "NIGHT 🌙",
-    [Phase.Day]:      "DAY   ☀️",
-    [Phase.Finished]: "GAME OVER"
-};
+    DEFAULT_SETUP,
+    PRESETS,
+    describeSetup,
+    loadSetupFile,
+    presetSetup,
+    validateSetup,
+    type GameSetup
+} from './setup.ts';
+import type { DayTieRule, WolfTieRule } from './rules.ts';
+import { PASSPHRASE_ENV, resumeNode, saveNode } from './persistence.ts';
+import { ENTROPY_SEED_ENV, isSeeded } from './entropy.ts';
+import { loadAdminKeyFile } from './adminKey.ts';
+import {
+    MIN_PASSPHRASE_LENGTH,
+    decodeShare,
+    describeCustody,
+    encodeShare,
+    validateCustody,
+    type CustodySetup,
+    type SecretShare
+} from './custody.ts';
 
 // ============================================
-// CRYPTO HELPERS
+// INTERACTIVE TERMINAL UI
 // ============================================
 
-function sha256(data: Uint8Array): Uint8Array {
-    return createHash('sha256').update(data).digest();
-}
-
-function randomBytes(len: number): Uint8Array {
-    const b = new Uint8Array(len);
-    for(let i=0; i<len; i++) b[i] = Math.floor(Math.random()*256);
-    return b;
-}
+let node = new TrustedNode();
+const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+let viewer: Viewer = { kind: 'god' };
+let setup: GameSetup = setupFromArgs(process.argv.slice(2));
+const setups = new Map<string, GameSetup>(); // Each game's setup, by hex gameId; `setup` is the selected game's
+let notice = "";
+let snapshot: { path: string; passphrase: string } | null = null;
 
-function toHex(b: Uint8Array): string {
-    return Buffer.from(b).toString('hex').slice(0,6);
-}
+const ask = (q: string) => new Promise<string>(done => rl.question(q, done));
 
-// Mock Merkle Tree for UI simulation
-class MerkleTree {
-    leaves: Uint8Array[];
-    constructor(leaves: Uint8Array[]) { this.leaves = leaves; }
-    getRootDigest() { return { field: 12345n }; } // Mock
-    getProof(index: number) {
-        const path: any[] = [];
-        for(let i=0; i<10; i++) path.push({ sibling: { field: 0n }, goes_left: index%2!==0 });
-        return { leaf: this.leaves[index], path };
-    }
+function flag(argv: string[], name: string): string | undefined {
+    const i = argv.indexOf(name);
+    return i === -1 ? undefined : argv[i + 1];
 }
 
-// ============================================
-// TRUSTED NODE (The "Server")
-// ============================================
-
-interface PlayerPrivateState {
-    id: number;
-    role: number;
-    alive: boolean;
-    secretKey: Uint8Array; // Identity Secret
-    salt: Uint8Array;      // Role Commitment Salt
-    publicKey: Uint8Array;
-    hasActed: boolean;     // Track if they submitted a tx this turn
-    voteTarget: number;    // Pending vote/action target
+function setupFromArgs(argv: string[]): GameSetup {
+    const config = flag(argv, '--config');
+    const preset = flag(argv, '--preset');
+    if (config) return loadSetupFile(config);
+    if (preset) return presetSetup(preset);
+    return { ...DEFAULT_SETUP };
 }
 
-class TrustedNode {
-    contract: Contract<any, any>;
-    context: CircuitContext<any>;
-    gameId: Uint8Array;
-    adminKey: Uint8Array;
-    
-    // SECRET DATA (Held only by Trusted Node)
-    private masterSecret: Uint8Array; // Used for RNG seeding & Fairness
-    private players: PlayerPrivateState[] = [];
-    private logs: string[] = [];
-
-    constructor() {
-        this.contract = new Contract({});
-        const initial = this.contract.initialState(createConstructorContext({}, '0'.repeat(64)));
-        this.context = {
-            currentPrivateState: initial.currentPrivateState,
-            currentZswapLocalState: initial.currentZswapLocalState,
-            currentQueryContext: new QueryContext(initial.currentContractState.data, sampleContractAddress()),
-            costModel: CostModel.initialCostModel()
-        };
-        this.gameId = randomBytes(32);
-        this.adminKey = new Uint8Array(32);
-        this.masterSecret = randomBytes(32);
-    }
-
-    // --- LOGGING HELPER ---
-    private logCall(caller: string, func: string, ...args: any[]) {
-        const argStr = args.map(a => 
-            typeof a === 'bigint' ? `${a}n` : 
-            (a instanceof Uint8Array || (a && a.bytes)) ? `Bytes<32>` : 
-            JSON.stringify(a)
-        ).join(', ');
-        
-        const timestamp = new Date().toLocaleTimeString();
-        this.logs.push(`${C.DIM}[${timestamp}]${C.RESET} ${C.CYAN}[${caller}]${C.RESET} called ${C.YELLOW}${func}${C.RESET}(${argStr})`);
-        
-        // Keep log size manageable
-        if (this.logs.length > 8) this.logs.shift();
-    }
-
-    // --- PUBLIC GETTERS FOR UI ---
-    getLogHistory() { return this.logs; }
-    
-    getPlayersPublicInfo() {
-        return this.players.map(p => ({
-            id: p.id,
-            role: p.role, // In real UI, this might be hidden for others, but we show for God View
-            alive: p.alive,
-            hasActed: p.hasActed
-        }));
-    }
-
-    // --- GAME ACTIONS ---
-
-    async initAdmin() {
-        // Simulate fetching key
-        try {
-            const r = this.contract.circuits.getAdminKey(this.context);
-            this.context = r.context;
-            this.adminKey = r.result.bytes;
-            this.logCall("ADMIN", "getAdminKey");
-        } catch { /* ignore in mock */ }
-    }
-
-    async createGame(count: number, wolves: number) {
-        this.players = [];
-        this.masterSecret = randomBytes(32);
-        const masterCommitment = sha256(this.masterSecret);
-
-        for (let i = 0; i < count; i++) {
-            this.players.push({
-                id: i,
-                role: i < wolves ? Role.Werewolf : Role.Villager,
-                alive: true,
-                secretKey: randomBytes(32),
-                salt: randomBytes(32),
-                publicKey: randomBytes(32),
-                hasActed: false,
-                voteTarget: -1
-            });
-        }
-
-        const leaves = this.players.map(p => sha256(p.secretKey));
-        const tree = new MerkleTree(leaves);
-        
-        // Mock Configs
-        const configs = Array(10).fill(null).map((_, i) => ({
-            publicKey: { bytes: i < count ? this.players[i].publicKey : new Uint8Array(32) },
-            roleCommitment: new Uint8Array(32),
-            encryptedRole: { x: 0n, y: 0n }
-        }));
-
-        this.logCall("ADMIN", "createGame", `ID:${toHex(this.gameId)}`, `Commit:${toHex(masterCommitment)}`, `Players:${count}`);
-        
-        const r = this.contract.circuits.createGame(
-            this.context,
-            this.gameId,
-            { bytes: this.adminKey },
-            tree.getRootDigest(),
-            masterCommitment, // UPDATED: Pass Master Secret Commitment
-            configs,
-            BigInt(count),
-            BigInt(wolves)
-        );
-        this.context = r.context;
-    }
-
-    async submitAction(playerId: number, targetId: number) {
-        const p = this.players[playerId];
-        if (!p.alive) return;
-
-        p.voteTarget = targetId;
-        p.hasActed = true;
-
-        const phase = this.getPhase();
-        
-        // Generate Mock Merkle Proof
-        const tree = new MerkleTree(this.players.map(pl => sha256(pl.secretKey)));
-        const proof = tree.getProof(playerId);
-
-        if (phase === Phase.Night) {
-            this.logCall(`Player ${playerId}`, "nightAction", `Target:${targetId}`, "Proof...");
-            try {
-                const r = this.contract.circuits.nightAction(
-                    this.context,
-                    this.gameId,
-                    randomBytes(32), // Encrypted Action
-                    proof as any,
-                    p.secretKey
-                );
-                this.context = r.context;
-            } catch (e) { /* Expected failure in mock due to proof hash mismatch */ }
-        } else {
-            this.logCall(`Player ${playerId}`, "voteDay", `Target:${targetId}`, "Proof...");
-            try {
-                const r = this.contract.circuits.voteDay(
-                    this.context,
-                    this.gameId,
-                    randomBytes(32),
-                    proof as any,
-                    p.secretKey
-                );
-                this.context = r.context;
-            } catch (e) { /* Expected failure in mock */ }
-        }
-    }
-
-    async resolveTurn() {
-        const phase = this.getPhase();
-        const round = this.getRound();
-
-        if (phase === Phase.Night) {
-            // Logic: Werewolves kill
-            const wolfAction = this.players.find(p => p.role === Role.Werewolf && p.alive && p.voteTarget !== -1);
-            let victim = -1;
-            let hasDeath = false;
-
-            if (wolfAction) {
-                victim = wolfAction.voteTarget;
-                hasDeath = true;
-                this.players[victim].alive = false;
-                this.logs.push(`${C.BG_RED}${C.WHITE} 💀 KILL: Werewolf killed Player ${victim} ${C.RESET}`);
-            } else {
-                this.logs.push(`${C.GREEN} 🌙 Night passed peacefully. ${C.RESET}`);
-            }
-
-            this.logCall("ADMIN", "resolveNightPhase", round + 1n, victim, hasDeath);
-            
-            try {
-                const r = this.contract.circuits.resolveNightPhase(
-                    this.context,
-                    this.gameId,
-                    round + 1n,
-                    BigInt(victim >= 0 ? victim : 0),
-                    hasDeath,
-                    { field: 0n } // New root
-                );
-                this.context = r.context;
-            } catch (e) { /* ignore mock error */ }
-
-        } else if (phase === Phase.Day) {
-            // Logic: Majority Vote
-            const votes: Record<number, number> = {};
-            this.players.forEach(p => {
-                if (p.alive && p.voteTarget !== -1) {
-                    votes[p.voteTarget] = (votes[p.voteTarget] || 0) + 1;
-                }
-            });
-
-            let eliminated = -1;
-            let maxV = 0;
-            for(const [t, c] of Object.entries(votes)) {
-                if (c > maxV) { maxV = c; eliminated = Number(t); }
-                else if (c === maxV) { eliminated = -1; }
-            }
-
-            let hasElim = false;
-            if (eliminated !== -1) {
-                hasElim = true;
-                this.players[eliminated].alive = false;
-                this.logs.push(`${C.BG_RED}${C.WHITE} 🔥 LYNCH: The town voted out Player ${eliminated} ${C.RESET}`);
-                // Reveal logic
-                await this.revealRole(eliminated);
-            } else {
-                this.logs.push(`${C.YELLOW} 🕊️  Vote tied. No one died. ${C.RESET}`);
-            }
-
-            this.logCall("ADMIN", "resolveDayPhase", eliminated, hasElim);
-            
-            try {
-                const r = this.contract.circuits.resolveDayPhase(
-                    this.context,
-                    this.gameId,
-                    BigInt(eliminated >= 0 ? eliminated : 0),
-                    hasElim
-                );
-                this.context = r.context;
-            } catch (e) { /* ignore mock error */ }
-        }
-
-        // Reset turn flags
-        this.players.forEach(p => { p.hasActed = false; p.voteTarget = -1; });
-    }
-
-    async revealRole(playerId: number) {
-        const p = this.players[playerId];
-        this.logCall("ADMIN", "revealPlayerRole", playerId, p.role);
-        try {
-            const r = this.contract.circuits.revealPlayerRole(
-                this.context,
-                this.gameId,
-                BigInt(playerId),
-                BigInt(p.role),
-                p.salt
-            );
-            this.context = r.context;
-        } catch { }
-    }
-
-    async verifyFairness() {
-        this.logCall("PUBLIC", "forceEndGame", `Secret:${toHex(this.masterSecret)}`);
-        
-        try {
-            // 1. Publish Secret
-            const rEnd = this.contract.circuits.forceEndGame(
-                this.context,
-                this.gameId,
-                this.masterSecret
-            );
-            this.context = rEnd.context;
-
-            // 2. Verify all players
-            let success = true;
-            for(const p of this.players) {
-                // Note: The UI simulator generates random salt for each player,
-                // but verifyFairness expects salt derived from masterSecret.
-                // In a real game, init would derive salts. Here, this call will fail logic
-                // but demonstrate the API.
-                this.logCall("PUBLIC", "verifyFairness", `P:${p.id}`, `Role:${p.role}`);
-                const rVer = this.contract.circuits.verifyFairness(
-                    this.context,
-                    this.gameId,
-                    this.masterSecret,
-                    BigInt(p.id),
-                    BigInt(p.role)
-                );
-                this.context = rVer.context;
-                // success = success && rVer.result;
-            }
-            
-            this.logs.push(`${C.GREEN} ✅ FAIRNESS VERIFICATION EXECUTED ${C.RESET}`);
-        } catch (e) {
-            this.logs.push(`${C.RED} ❌ VERIFICATION FAILED (Mock Data Mismatch) ${C.RESET}`);
-        }
-    }
-
-    // --- CONTRACT STATE ---
-    getState() {
-        try {
-            const r = this.contract.circuits.getGameState(this.context, this.gameId);
-            this.context = r.context;
-            return r.result;
-        } catch { return null; }
-    }
-
-    getPhase(): number { const s = this.getState(); return s ? Number(s.phase) : Phase.Lobby; }
-    getRound(): bigint { const s = this.getState(); return s ? s.round : 0n; }
+function viewerLabel(v: Viewer): string {
+    if (v.kind === 'god') return "GOD 👁";
+    if (v.kind === 'spectator') return "SPECTATOR";
+    return `PLAYER ${v.id}`;
 }
 
-// ============================================
-// INTERACTIVE TERMINAL UI
-// ============================================
-
-const node = new TrustedNode();
-const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
-
 function clearScreen() {
     console.clear();
 }
@@ -423,29 +96,49 @@ function printHeader() {
     console.log(`   🐺  ${C.BRIGHT}PRIVACY-PRESERVING WEREWOLF${C.RESET}  |  Powered by Midnight`);
     console.log(`${C.BRIGHT}${C.BLUE}============================================================${C.RESET}`);
     console.log(`\n   Phase: ${C.BRIGHT}${PHASE_STR[phase]}${C.RESET}  |  Round: ${C.BRIGHT}${round}${C.RESET}`);
-    console.log(`   Contract ID: ${C.DIM}${toHex(node.gameId)}${C.RESET}`);
+    console.log(`   Contract ID: ${C.DIM}${toHex(node.gameId)}${C.RESET}  |  View: ${C.BRIGHT}${viewerLabel(viewer)}${C.RESET}  |  Games: ${node.listGames().length}`);
+    const custody = node.getCustody();
+    console.log(`   Setup: ${C.DIM}${describeSetup(setup)}${C.RESET}${custody ? `  |  Secret: ${C.DIM}${describeCustody(custody)}${C.RESET}` : ""}`);
+    if (isSeeded()) console.log(`   ${C.BG_RED} SEEDED ENTROPY ($${ENTROPY_SEED_ENV}): every secret is reproducible, test use only ${C.RESET}`);
     console.log("");
+    if (notice) {
+        console.log(`   ${notice}\n`);
+        notice = "";
+    }
 }
 
-function printPlayers() {
-    const players = node.getPlayersPublicInfo();
-    if (players.length === 0) {
-        console.log(`   ${C.DIM}(No players in lobby)${C.RESET}\n`);
+function printLobby() {
+    const lobby = node.getLobby();
+    if (!lobby) {
+        console.log(`   ${C.DIM}(No lobby open)${C.RESET}\n`);
         return;
     }
 
+    console.log(`   ${C.BRIGHT}LOBBY:${C.RESET} ${lobby.seats.length} joined (start with ${lobby.minPlayers}-${lobby.maxPlayers})`);
+    console.log(`   --------------------------------------------------------`);
+    console.log(`   | ID | ${"Public Key".padEnd(18)} | ${"Identity Leaf".padEnd(25)} |`);
+    console.log(`   --------------------------------------------------------`);
+    if (lobby.seats.length === 0) console.log(`   ${C.DIM}(Waiting for players...)${C.RESET}`);
+    lobby.seats.forEach(seat => {
+        console.log(`   | ${seat.id.toString().padEnd(2)} | ${bytesToHex(seat.publicKey).slice(0, 16)}.. | ${bytesToHex(seat.identityLeaf).slice(0, 23)}.. |`);
+    });
+    console.log(`   --------------------------------------------------------\n`);
+}
+
+function printPlayers(view: TableView) {
     console.log(`   ${C.BRIGHT}PLAYERS:${C.RESET}`);
     console.log(`   --------------------------------------------------------`);
     console.log(`   | ID | ${"Role".padEnd(12)} | Status   | Action Submitted? |`);
     console.log(`   --------------------------------------------------------`);
 
-    players.forEach(p => {
-        const roleText = ROLE_STR[p.role].padEnd(12);
+    view.rows.forEach(p => {
+        const roleText = p.role === null ? `${C.DIM}${"?".padEnd(12)}${C.RESET}` : ROLE_STR[p.role].padEnd(12);
         
         let status = `${C.GREEN}Alive${C.RESET}   `;
         if (!p.alive) status = `${C.RED}DEAD 💀${C.RESET}  `;
 
         let acted = p.hasActed ? `${C.GREEN}Yes ✅${C.RESET}` : `${C.DIM}No  ...${C.RESET}`;
+        if (p.hasActed === null) acted = `${C.DIM}${"?".padEnd(7)}${C.RESET}`;
         if (!p.alive) acted = `${C.DIM}---${C.RESET}`;
 
         // Gray out dead rows
@@ -457,7 +150,60 @@ function printPlayers() {
     console.log(`   --------------------------------------------------------\n`);
 }
 
-function printLogs() {
+const TIMELINE_STR: Record<TimelineKind, (e: TimelineEvent) => string> = {
+    kill:   e => `${C.RED}💀 Wolves killed Player ${e.player}${C.RESET}`,
+    save:   e => `${C.GREEN}💉 Doctor saved Player ${e.player}${C.RESET}`,
+    quiet:  () => `${C.DIM}🌙 Nobody died${C.RESET}`,
+    lynch:  e => `${C.RED}🔥 Town lynched Player ${e.player}${C.RESET}`,
+    spared: () => `${C.DIM}🕊️  Nobody was lynched${C.RESET}`,
+    reveal: e => `${C.MAGENTA}🪦 Player ${e.player} was a ${ROLE_STR[e.role!].trim()}${C.RESET}`
+};
+
+// Final screen: the winner, every role and fate, and what happened each round
+function printSummary(summary: GameSummary) {
+    const banner = summary.winner ? `🏆 ${TEAM_STR[summary.winner]} WIN${summary.winner === 'village' ? "S" : ""}` : "🏁 NO WINNER";
+    console.log(`   ${C.BG_GREEN}${C.BLACK} ${banner} ${C.RESET}  ${C.DIM}${summary.reason}, after ${summary.rounds} round(s)${C.RESET}\n`);
+
+    console.log(`   ${C.BRIGHT}PLAYERS:${C.RESET}`);
+    console.log(`   --------------------------------------------------------`);
+    console.log(`   | ID | ${"Role".padEnd(12)} | Fate                           |`);
+    console.log(`   --------------------------------------------------------`);
+    for (const p of summary.players) {
+        const fate = p.alive
+            ? `${C.GREEN}Survived${C.RESET}`
+            : `${C.RED}${p.cause === 'kill' ? "Killed" : "Lynched"} in round ${p.diedRound}${C.RESET}`;
+        console.log(`   | ${p.id.toString().padEnd(2)} | ${ROLE_STR[p.role].padEnd(12)} | ${fate}`);
+    }
+    console.log(`   --------------------------------------------------------\n`);
+
+    console.log(`   ${C.BRIGHT}TIMELINE:${C.RESET}`);
+    if (summary.timeline.length === 0) console.log(`   ${C.DIM}(Nothing happened)${C.RESET}`);
+    for (const e of summary.timeline) {
+        const when = `Round ${e.round} ${e.phase === Phase.Night ? "Night" : "Day  "}`;
+        console.log(`   ${C.DIM}${when}${C.RESET}  ${TIMELINE_STR[e.kind](e)}`);
+    }
+    console.log("");
+}
+
+// What only this viewer knows: their role, packmates, pack proposals and visions
+function printPrivate(view: TableView) {
+    if (!view.you) return;
+    console.log(`   ${C.BRIGHT}YOU:${C.RESET} Player ${view.you.id}  |  ${ROLE_STR[view.you.role]}`);
+    if (view.packmates.length > 0) {
+        console.log(`   ${C.RED}🐺 Packmates: ${view.packmates.map(id => `Player ${id}`).join(', ')}${C.RESET}`);
+    }
+    for (const { wolf, target } of view.packProposals) {
+        console.log(`   ${C.RED}🐺 Packmate ${wolf} proposes Player ${target}${C.RESET}`);
+    }
+    for (const f of view.seerFindings) {
+        console.log(`   ${C.CYAN}🔮 Round ${f.round}: Player ${f.target} ${f.isWolf ? "IS a Werewolf" : "is not a Werewolf"}${C.RESET}`);
+    }
+    console.log("");
+}
+
+// Node logs name victims, saves and splits, so only the God view shows them
+function printLogs(v: Viewer) {
+    if (v.kind !== 'god') return;
     console.log(`   ${C.BRIGHT}TRUSTED NODE LOGS:${C.RESET}`);
     const logs = node.getLogHistory();
     if (logs.length === 0) console.log(`   ${C.DIM}(No activity yet)${C.RESET}`);
@@ -469,26 +215,57 @@ function printMenu() {
     const phase = node.getPhase();
     console.log(`${C.BLUE}--- ACTIONS ---${C.RESET}`);
     
-    if (phase === Phase.Lobby) {
-        console.log(`   1. Start New Game (5 Players, 1 Wolf)`);
+    if (phase === Phase.Lobby && !node.getLobby()) {
+        console.log(`   1. Open Lobby (Setup Wizard)`);
+    } else if (phase === Phase.Lobby) {
+        console.log(`   1. Join as New Player`);
+        console.log(`   2. ${C.YELLOW}[ADMIN] Start Game${C.RESET}`);
+        console.log(`   3. ${C.YELLOW}[ADMIN] Cancel Lobby${C.RESET}`);
+        console.log(`   4. Fill Remaining Seats`);
     } else if (phase === Phase.Finished) {
         console.log(`   1. Verify Fairness (Publish Secrets)`);
-        console.log(`   2. Reset Game`);
+        console.log(`   2. New Game (Fresh Players)`);
+        console.log(`   3. Verify Role Shuffle (Ledger Only)`);
+        console.log(`   4. Audit Transcript`);
+        console.log(`   5. Export Game Log`);
+        console.log(`   6. Publish Openings`);
+        console.log(`   7. Verify Openings`);
+        console.log(`   8. Export Summary`);
+        console.log(`   R. Rematch (Same Players, New Roles)`);
     } else {
         // Active Game
         const actionVerb = phase === Phase.Night ? "Action" : "Vote";
         console.log(`   1. Submit ${actionVerb} (as Player ID)`);
         console.log(`   2. ${C.YELLOW}[ADMIN] Resolve Phase${C.RESET}`);
     }
+    if (phase !== Phase.Lobby) console.log(`   V. Switch View (God / Player / Spectator)`);
+    console.log(`   G. Games (List / Switch / New)`);
     console.log(`   9. Exit`);
     rl.question(`\n${C.BRIGHT}> Select Option: ${C.RESET}`, handleInput);
 }
 
 function render() {
+    // Every command ends in a render, so this saves after each one
+    if (snapshot) {
+        try {
+            saveNode(node, snapshot.path, snapshot.passphrase);
+        } catch (e) {
+            notice = `${C.RED}❌ Could not save game ${toHex(node.gameId).slice(0, 6)} to ${snapshot.path}: ${e instanceof Error ? e.message : e}${C.RESET}`;
+        }
+    }
     clearScreen();
     printHeader();
-    printPlayers();
-    printLogs();
+    const summary = node.exportSummary();
+    if (node.getPhase() === Phase.Lobby) {
+        printLobby();
+    } else if (summary) {
+        printSummary(summary);
+    } else {
+        const view = buildView(node, viewer);
+        printPlayers(view);
+        printPrivate(view);
+    }
+    printLogs(viewer);
     printMenu();
 }
 
@@ -499,33 +276,94 @@ async function handleInput(input: string) {
     try {
         switch(choice) {
             case '1': // Context dependent action
-                if (phase === Phase.Lobby) {
-                    await node.initAdmin();
-                    await node.createGame(5, 1);
+                if (phase === Phase.Lobby && !node.getLobby()) {
+                    await openGame();
+                } else if (phase === Phase.Lobby) {
+                    await node.joinLobby();
                 } else if (phase === Phase.Finished) {
-                    await node.verifyFairness();
+                    if (await unlockSecret()) await node.verifyFairness();
                 } else {
                     await promptAction();
                     return; // Prompt calls render
                 }
                 break;
             case '2': // Context dependent
-                if (phase === Phase.Finished) {
-                    // Reset Logic implies new TrustedNode instance or full reset,
-                    // simplified here by exiting or re-init in real app.
-                    console.log("Please restart application to reset.");
-                    process.exit(0);
+                if (phase === Phase.Lobby && node.getLobby()) {
+                    // A node restarted in the lobby needs the shares back to deal roles
+                    if (await unlockSecret()) await node.startGame(setup.wolves, setup);
+                } else if (phase === Phase.Finished) {
+                    viewer = { kind: 'god' };
+                    if (await node.resetGame(setup.players, setup.players)) {
+                        rememberSetup();
+                        await handOutShares();
+                    }
                 } else if (phase === Phase.Night || phase === Phase.Day) {
                     await node.resolveTurn();
                 }
                 break;
+            case '3':
+                if (phase === Phase.Lobby && node.getLobby()) {
+                    await node.cancelLobby();
+                } else if (phase === Phase.Finished) {
+                    await node.verifyShuffle();
+                }
+                break;
+            case '4':
+                if (phase === Phase.Lobby && node.getLobby()) {
+                    while ((node.getLobby()?.seats.length ?? setup.players) < setup.players) {
+                        if (await node.joinLobby() === null) break;
+                    }
+                } else if (phase === Phase.Finished) {
+                    await node.auditTranscript();
+                }
+                break;
+            case '5':
+                if (phase === Phase.Finished) {
+                    node.writeGameLog(`game-${toHex(node.gameId)}.json`);
+                }
+                break;
+            case '6':
+                if (phase === Phase.Finished && await unlockSecret()) {
+                    node.writeOpenings(`openings-${toHex(node.gameId)}.json`);
+                }
+                break;
+            case '7':
+                if (phase === Phase.Finished && await unlockSecret()) {
+                    await node.verifyOpenings();
+                }
+                break;
+            case '8':
+                if (phase === Phase.Finished) {
+                    node.writeSummary(`summary-${toHex(node.gameId)}.json`);
+                }
+                break;
+            case 'r':
+            case 'R':
+                if (phase === Phase.Finished) {
+                    viewer = { kind: 'god' };
+                    await node.rematch();
+                    rememberSetup();
+                    await handOutShares();
+                }
+                break;
+            case 'g':
+            case 'G':
+                await promptGames();
+                return;
+            case 'v':
+            case 'V':
+                if (phase !== Phase.Lobby) {
+                    promptViewer();
+                    return;
+                }
+                break;
             case '9':
                 console.log("Exiting...");
                 process.exit(0);
                 break;
         }
-    } catch (e: any) {
-        // Catch simulation errors
+    } catch (e) {
+        notice = `${C.RED}❌ ${e instanceof Error ? e.message : e}${C.RESET}`;
     }
     render();
 }
@@ -533,10 +371,16 @@ async function handleInput(input: string) {
 async function promptAction() {
     const phase = node.getPhase();
     const actionName = phase === Phase.Night ? "Target" : "Vote";
-    
-    rl.question(`   Enter Your Player ID: `, (uid) => {
+
+    const submitAs = (u: number) => {
+        const ownRole = node.decryptRoleFor(u);
+        if (ownRole !== null) {
+            console.log(`   ${C.CYAN}🔑 Your role (decrypted from the ledger): ${ROLE_STR[ownRole]}${C.RESET}`);
+        }
+        for (const { wolf, target } of node.getPackProposals(u)) {
+            console.log(`   ${C.RED}🐺 Packmate ${wolf} proposes Player ${target}${C.RESET}`);
+        }
         rl.question(`   Enter ${actionName} ID: `, async (tid) => {
-            const u = parseInt(uid);
             const t = parseInt(tid);
             
             if (!isNaN(u) && !isNaN(t)) {
@@ -544,8 +388,190 @@ async function promptAction() {
             }
             render();
         });
+    };
+
+    // Watching as a player means acting as that player
+    if (viewer.kind === 'player') {
+        submitAs(viewer.id);
+    } else {
+        rl.question(`   Enter Your Player ID: `, (uid) => submitAs(parseInt(uid)));
+    }
+}
+
+// Picks a preset or walks through each setting; nothing is accepted until
+// it passes the same checks the contract makes
+async function runSetupWizard(): Promise<boolean> {
+    console.log(`\n   ${C.BRIGHT}GAME SETUP${C.RESET}  ${C.DIM}(Enter keeps the value in brackets)${C.RESET}`);
+    console.log(`   Presets: ${Object.keys(PRESETS).join(', ')}`);
+    const preset = (await ask(`   Preset, or Enter for custom [${describeSetup(setup)}]: `)).trim();
+
+    let next: GameSetup;
+    if (preset) {
+        try {
+            next = presetSetup(preset);
+        } catch (e: any) {
+            notice = `${C.RED}❌ ${e.message}${C.RESET}`;
+            return false;
+        }
+    } else {
+        const num = async (q: string, current: number) => {
+            const a = (await ask(`   ${q} [${current}]: `)).trim();
+            return a ? parseInt(a) : current;
+        };
+        const yes = async (q: string, current: boolean) => {
+            const a = (await ask(`   ${q} (y/n) [${current ? 'y' : 'n'}]: `)).trim().toLowerCase();
+            return a ? a.startsWith('y') : current;
+        };
+        const text = async <T extends string>(q: string, current: T) => ((await ask(`   ${q} [${current}]: `)).trim() || current) as T;
+
+        next = {
+            players: await num("Players (3-10)", setup.players),
+            wolves: await num("Wolves", setup.wolves),
+            seer: await yes("Seer", setup.seer),
+            doctor: await yes("Doctor", setup.doctor),
+            wolfTieRule: await text<WolfTieRule>("Split pack (random / none / lowest)", setup.wolfTieRule),
+            dayTieRule: await text<DayTieRule>("Tied vote (none / lowest / random)", setup.dayTieRule)
+        };
+    }
+
+    const errors = validateSetup(next);
+    if (errors.length > 0) {
+        notice = errors.map(e => `${C.RED}❌ ${e}${C.RESET}`).join("\n   ");
+        return false;
+    }
+    setup = next;
+    return true;
+}
+
+function rememberSetup() {
+    setups.set(bytesToHex(node.gameId), { ...setup });
+}
+
+// Who holds the master secret of every game opened from here on
+async function runCustodyWizard(): Promise<boolean> {
+    // A resumed node kept the mode but not the passphrase
+    const renew = node.getCustodyToRenew();
+    console.log(`\n   ${C.BRIGHT}MASTER SECRET CUSTODY${C.RESET}  ${C.DIM}(${renew ? "passphrase again, after the restart" : "asked once, before the first game"})${C.RESET}`);
+    const kind = renew ? 'p' : (await ask(`   P = derive from a passphrase, S = split into shares for co-admins [P]: `)).trim().toLowerCase();
+
+    let next: CustodySetup;
+    if (kind.startsWith('s')) {
+        const total = parseInt(await ask(`   Co-admins holding a share [3]: `)) || 3;
+        const threshold = parseInt(await ask(`   Shares needed to publish the secret [2]: `)) || 2;
+        next = { kind: 'shares', threshold, total };
+    } else {
+        next = { kind: 'passphrase', passphrase: await ask(`   Passphrase (${MIN_PASSPHRASE_LENGTH}+ characters): `) };
+    }
+
+    const errors = validateCustody(next);
+    if (errors.length > 0) {
+        notice = errors.map(e => `${C.RED}❌ ${e}${C.RESET}`).join("\n   ");
+        return false;
+    }
+    return node.setCustody(next);
+}
+
+// Shown once, then gone from the node: each line goes to one co-admin
+async function handOutShares() {
+    const shares = node.takeShares();
+    if (shares.length === 0) return;
+    console.log(`\n   ${C.BRIGHT}MASTER SECRET SHARES${C.RESET}  ${C.DIM}(any ${shares[0].threshold} publish the secret; not shown again)${C.RESET}`);
+    for (const share of shares) console.log(`   ${share.index}. ${encodeShare(share)}`);
+    await ask(`\n   Press Enter once every co-admin has their share... `);
+}
+
+// Collects the co-admins' shares while this game's secret is still locked,
+// to deal roles in the lobby or to publish it once the game is over
+async function unlockSecret(): Promise<boolean> {
+    const custody = node.getCustody();
+    if (!node.needsShares() || custody?.kind !== 'shares') return true;
+    const purpose = node.getPhase() === Phase.Lobby ? "DEAL ROLES" : "PUBLISH MASTER SECRET";
+    console.log(`\n   ${C.BRIGHT}${purpose}${C.RESET}  ${C.DIM}(${custody.threshold} of ${custody.total} shares)${C.RESET}`);
+
+    const shares: SecretShare[] = [];
+    for (let i = 1; i <= custody.threshold; i++) {
+        try {
+            shares.push(decodeShare(await ask(`   Share ${i}/${custody.threshold}: `)));
+        } catch (e: any) {
+            notice = `${C.RED}❌ ${e.message}${C.RESET}`;
+            return false;
+        }
+    }
+    return node.recombineShares(shares);
+}
+
+// A new lobby beside any running games, from the setup wizard
+async function openGame() {
+    if (!node.hasCustody() && !await runCustodyWizard()) return;
+    if (!await runSetupWizard()) return;
+    if (await node.openLobby(setup.players, setup.players)) {
+        rememberSetup();
+        viewer = { kind: 'god' };
+        await handOutShares();
+    }
+}
+
+async function promptGames() {
+    const games = node.listGames();
+    console.log(`\n   ${C.BRIGHT}GAMES ON THIS NODE:${C.RESET}`);
+    if (games.length === 0) console.log(`   ${C.DIM}(None yet)${C.RESET}`);
+    games.forEach((g, i) => {
+        const current = g.gameId === bytesToHex(node.gameId) ? ` ${C.CYAN}(selected)${C.RESET}` : "";
+        const winner = g.winner ? `  🏆 ${TEAM_STR[g.winner]}` : "";
+        console.log(`   ${i + 1}. ${g.gameId.slice(0, 6)}  ${PHASE_STR[g.phase].padEnd(9)} Round ${g.round}  ${g.seats} seat(s)${winner}${current}`);
     });
+
+    const answer = (await ask(`   Switch to (number), N for a new game, Enter to go back: `)).trim().toLowerCase();
+    const picked = games[parseInt(answer) - 1];
+    if (answer === 'n') {
+        await openGame();
+    } else if (picked && node.selectGame(picked.gameId)) {
+        setup = setups.get(picked.gameId) ?? setup;
+        viewer = { kind: 'god' };
+    }
+    render();
+}
+
+function promptViewer() {
+    rl.question(`   View as (G = God, S = Spectator, or a Player ID): `, (answer) => {
+        const choice = answer.trim().toLowerCase();
+        const id = parseInt(choice);
+        if (choice === 'g') {
+            viewer = { kind: 'god' };
+        } else if (choice === 's') {
+            viewer = { kind: 'spectator' };
+        } else if (!isNaN(id) && node.getPrivateView(id)) {
+            viewer = { kind: 'player', id };
+        }
+        render();
+    });
+}
+
+async function start(argv: string[]) {
+    const resume = flag(argv, '--resume');
+    const path = resume ?? flag(argv, '--save');
+    if (path) {
+        const passphrase = process.env[PASSPHRASE_ENV] || await ask(`Snapshot passphrase for ${path}: `);
+        snapshot = { path, passphrase };
+    }
+    if (resume) {
+        try {
+            node = resumeNode(resume, snapshot!.passphrase);
+        } catch (e: any) {
+            console.log(`${C.RED}❌ Cannot resume: ${e?.message ?? e}${C.RESET}`);
+            process.exit(1);
+        }
+        notice = `${C.GREEN}💾 Resumed ${node.listGames().length} game(s) from ${resume}${C.RESET}`;
+    } else {
+        const adminKey = flag(argv, '--admin-key');
+        try {
+            await node.initAdmin(adminKey ? loadAdminKeyFile(adminKey) : undefined);
+        } catch (e: any) {
+            console.log(`${C.RED}❌ Cannot use the admin key: ${e?.message ?? e}${C.RESET}`);
+            process.exit(1);
+        }
+    }
+    render();
 }
 
-// Start
-render();
\ No newline at end of file
+start(process.argv.slice(2));
\ No newline at end of file